@@ -0,0 +1,265 @@
+import { Request } from "express";
+import Stremio from "stremio-addon-sdk";
+import { getMetadata } from "../metadata/providers.js";
+import {
+  getCachedTorrentInfo,
+  getTorrentMetaLink,
+} from "../torrent/metadata.js";
+import {
+  dedupeTorrents,
+  resolveTorrents,
+  toMergedTorrent,
+} from "../torrent/merge.js";
+import {
+  getEnabledSources,
+  getSourceCredentials,
+} from "../torrent/providers.js";
+import { searchTorrents } from "../torrent/search.js";
+import {
+  TorrentInfo,
+  getDownloadedTorrents,
+  getStats,
+} from "../torrent/webtorrent.js";
+import { Permission, hasPermission } from "../utils/auth.js";
+import { getReadableSize, isVideoFile } from "../utils/file.js";
+import { isImdbId } from "../utils/imdb.js";
+import { parseReleaseName } from "../utils/release.js";
+import { getStreamUrl } from "../utils/token.js";
+import { ProfileConfig, isProfileId } from "./profiles.js";
+import { rememberStreamFile } from "./subtitles.js";
+
+interface HandlerArgs {
+  type: string;
+  id: string;
+  extra?: { search?: string };
+  config?: ProfileConfig;
+  req: Request;
+}
+
+/** Every result is fetched to list its files, so only the best seeded are */
+const SEARCH_CATALOG_LIMIT = Number(process.env.SEARCH_CATALOG_LIMIT) || 30;
+
+export const CACHED_CATALOG_ID = "cached";
+
+export const SEARCH_CATALOG_ID = "search";
+
+/** Torrents without a known title are listed under their own ids */
+export const TORRENT_ID_PREFIX = "torrent";
+
+const TORRENT_TYPE = "other";
+
+interface CachedTorrent {
+  info: TorrentInfo;
+  progress: number;
+  active: boolean;
+}
+
+export const isTorrentId = (id: string) =>
+  id.startsWith(`${TORRENT_ID_PREFIX}:`);
+
+const getTorrentId = (infoHash: string, fileIndex?: number) =>
+  [TORRENT_ID_PREFIX, infoHash, fileIndex]
+    .filter((part) => part !== undefined)
+    .join(":");
+
+/** Active torrents first, then the ones only left on disk */
+const getCachedTorrents = async () => {
+  const torrents = new Map<string, CachedTorrent>();
+
+  for (const torrent of getStats().activeTorrents) {
+    const info = await getCachedTorrentInfo(torrent.infoHash);
+    if (!info) continue;
+    torrents.set(info.infoHash, {
+      info,
+      progress: torrent.progress,
+      active: true,
+    });
+  }
+
+  for (const { info, downloaded } of await getDownloadedTorrents()) {
+    if (torrents.has(info.infoHash)) continue;
+    torrents.set(info.infoHash, {
+      info,
+      progress: info.size ? downloaded / info.size : 0,
+      active: false,
+    });
+  }
+
+  return [...torrents.values()];
+};
+
+const formatTorrent = ({ info, progress, active }: CachedTorrent) =>
+  [
+    info.name,
+    `${active ? "⬇️" : "💾"} ${Math.floor(progress * 100)}% of ${getReadableSize(
+      info.size
+    )}`,
+  ].join("\n");
+
+const getPoster = (id: string) =>
+  isImdbId(id)
+    ? `https://images.metahub.space/poster/small/${id}/img`
+    : undefined;
+
+/**
+ * Torrents found for a title are grouped under its id, so Stremio shows its
+ * usual details page and plays them through the stream handler.
+ */
+const getCachedMetas = async () => {
+  const groups = new Map<
+    string,
+    Stremio.MetaPreview & { torrents: string[] }
+  >();
+
+  for (const torrent of await getCachedTorrents()) {
+    const link = getTorrentMetaLink(torrent.info.infoHash);
+    const id = link?.id || getTorrentId(torrent.info.infoHash);
+
+    let group = groups.get(id);
+
+    if (!group) {
+      const meta =
+        link && isImdbId(link.id)
+          ? await getMetadata(
+              link.id,
+              link.type === "movie" ? "movie" : "series"
+            )
+          : undefined;
+
+      group = {
+        id,
+        // "other" and Kitsu's "anime" are missing from the SDK's types
+        type: (link?.type || TORRENT_TYPE) as Stremio.ContentType,
+        name:
+          meta?.title ||
+          parseReleaseName(torrent.info.name).title ||
+          torrent.info.name,
+        poster: getPoster(id),
+        posterShape: link ? "regular" : "landscape",
+        torrents: [],
+      };
+      groups.set(id, group);
+    }
+
+    group.torrents.push(formatTorrent(torrent));
+  }
+
+  return [...groups.values()].map(({ torrents, ...meta }) => ({
+    ...meta,
+    description: torrents.join("\n\n"),
+  }));
+};
+
+/**
+ * Searches use the server's tracker credentials, so only profiles made by an
+ * admin or requests with the search permission may run them.
+ */
+const canSearchCatalog = (req: Request) =>
+  isProfileId(req?.params?.config || "") ||
+  hasPermission(req, Permission.Search);
+
+/** Free-text search for releases Cinemeta doesn't know, e.g. concerts */
+const searchMetas = async (search: string, config: ProfileConfig) => {
+  // No sources would search all of them
+  const sources = getEnabledSources(config);
+  if (!sources.length) return [];
+
+  const torrents = dedupeTorrents(
+    (
+      await searchTorrents(search, {
+        sources,
+        credentials: getSourceCredentials(config),
+      })
+    ).map((torrent) => toMergedTorrent(torrent, false))
+  )
+    .filter((torrent) => torrent.seeds)
+    .sort((a, b) => (b.seeds || 0) - (a.seeds || 0))
+    .slice(0, SEARCH_CATALOG_LIMIT);
+
+  return (await resolveTorrents(torrents)).map(({ torrent, torrentInfo }) => ({
+    id: getTorrentId(torrentInfo.infoHash),
+    type: TORRENT_TYPE,
+    name: torrent.name,
+    posterShape: "landscape",
+    description: [
+      `💾 ${getReadableSize(torrentInfo.size)} ⬆️ ${torrent.seeds} ⬇️ ${torrent.peers}`,
+      `⚙️ ${torrent.trackers.join(", ")}`,
+    ].join("\n"),
+  }));
+};
+
+export const catalogHandler = async ({
+  id,
+  extra,
+  config,
+  req,
+}: HandlerArgs) => {
+  if (id === CACHED_CATALOG_ID) return { metas: await getCachedMetas() };
+
+  if (id === SEARCH_CATALOG_ID && extra?.search && config) {
+    if (!canSearchCatalog(req)) return { metas: [] };
+    return { metas: await searchMetas(extra.search, config) };
+  }
+
+  return { metas: [] };
+};
+
+/** Only for torrent ids, titles come from Cinemeta and other addons */
+export const metaHandler = async ({ id }: HandlerArgs) => {
+  const [, infoHash] = id.split(":");
+  const info = await getCachedTorrentInfo(infoHash);
+  if (!info) return { meta: null };
+
+  const videos = info.files
+    .map((file, index) => ({ file, index }))
+    .filter(({ file }) => isVideoFile(file.name));
+
+  return {
+    meta: {
+      id: getTorrentId(info.infoHash),
+      type: TORRENT_TYPE,
+      name: parseReleaseName(info.name).title || info.name,
+      posterShape: "landscape",
+      description: info.name,
+      videos: videos.map(({ file, index }) => ({
+        id: getTorrentId(info.infoHash, index),
+        title: `${file.name} (${getReadableSize(file.size)})`,
+        released: new Date(0).toISOString(),
+      })),
+      behaviorHints: {
+        defaultVideoId:
+          videos.length === 1
+            ? getTorrentId(info.infoHash, videos[0].index)
+            : undefined,
+      },
+    },
+  };
+};
+
+/** Streams of torrent ids, a single file of a torrent on the server */
+export const getTorrentStreams = async (req: Request, id: string) => {
+  const [, infoHash, fileIndex] = id.split(":");
+  const info = await getCachedTorrentInfo(infoHash);
+  const file = info?.files[Number(fileIndex)];
+  if (!info || !file) return { streams: [] };
+
+  // Subtitles are served by the subtitles resource, see subtitles.ts
+  rememberStreamFile(info, Number(fileIndex));
+
+  return {
+    streams: [
+      {
+        name: "Torrent",
+        description: `${info.name}\n${file.name}\n💾 ${getReadableSize(
+          file.size
+        )}`,
+        url: getStreamUrl(req, info.infoHash, Number(fileIndex), file.name),
+        behaviorHints: {
+          bingeGroup: info.name,
+          filename: file.name,
+          videoSize: file.size,
+        },
+      },
+    ],
+  };
+};
@@ -1,116 +1,170 @@
 import { Manifest } from "stremio-addon-sdk";
+import {
+  getManifestConfig,
+  getSourceProviders,
+} from "../torrent/providers.js";
+import { DEFAULT_RANKING, rankingPresets } from "../utils/ranking.js";
+import {
+  CACHED_CATALOG_ID,
+  SEARCH_CATALOG_ID,
+  TORRENT_ID_PREFIX,
+} from "./catalog.js";
 
 export const manifest: Manifest = {
   id: "community.torrent-stream",
   version: "1.0.0",
-  catalogs: [],
-  resources: ["stream"],
-  types: ["movie", "series"],
+  catalogs: [
+    // @ts-ignore Torrents without a known title use the "other" type
+    { type: "other", id: CACHED_CATALOG_ID, name: "Torrents on the server" },
+    {
+      // @ts-ignore
+      type: "other",
+      id: SEARCH_CATALOG_ID,
+      name: "Torrent search",
+      extra: [{ name: "search", isRequired: true }],
+    },
+  ],
+  resources: [
+    "stream",
+    "subtitles",
+    "catalog",
+    // @ts-ignore
+    { name: "meta", types: ["other"], idPrefixes: [TORRENT_ID_PREFIX] },
+  ],
+  // @ts-ignore Kitsu anime catalogs use their own type
+  types: ["movie", "series", "anime", "other"],
   name: "Torrent Stream",
   logo: "https://upload.wikimedia.org/wikipedia/en/7/79/WebTorrent_logo.png",
   background:
     "https://i.etsystatic.com/35367581/r/il/53bf97/4463935832/il_fullxfull.4463935832_3k3g.jpg",
   description:
     "This addon enables Stremio to stream movies and shows from torrents",
-  idPrefixes: ["tt"],
+  idPrefixes: ["tt", "kitsu", TORRENT_ID_PREFIX],
   behaviorHints: {
     // @ts-ignore
     configurable: true,
     configurationRequired: true,
   },
   config: [
+    ...getSourceProviders().flatMap(getManifestConfig),
     {
-      title: "Enable Jackett search",
-      key: "enableJackett",
+      title: "Use titles for torrent search",
+      key: "searchByTitle",
       type: "checkbox",
     },
     {
-      title: "Jackett API URL",
-      key: "jackettUrl",
-      type: "text",
+      title: "Do not show HDR results",
+      key: "disableHdr",
+      type: "checkbox",
     },
     {
-      title: "Jackett API Key",
-      key: "jackettKey",
-      type: "password",
+      title: "Do not show HEVC results",
+      key: "disableHevc",
+      type: "checkbox",
     },
     {
-      title: "Enable nCore search",
-      key: "enableNcore",
+      title: "Do not show 4K results",
+      key: "disable4k",
+      type: "checkbox",
+    },
+    {
+      title: "Do not show CAM results",
+      key: "disableCam",
       type: "checkbox",
       default: "checked",
     },
     {
-      title: "nCore username",
-      key: "nCoreUser",
-      type: "text",
+      title: "Do not show 3D results",
+      key: "disable3d",
+      type: "checkbox",
+      default: "checked",
     },
     {
-      title: "nCore password",
-      key: "nCorePassword",
-      type: "password",
+      title: "Preferred languages, in order (e.g. Hungarian, English)",
+      key: "preferredLanguages",
+      type: "text",
     },
     {
-      title: "Enable iNSANE search",
-      key: "enableInsane",
+      title: "Only show results in preferred languages",
+      key: "onlyPreferredLanguages",
       type: "checkbox",
     },
     {
-      title: "iNSANE username",
-      key: "insaneUser",
-      type: "text",
+      title: "Minimum movie file size (GB)",
+      key: "minMovieSize",
+      type: "number",
     },
     {
-      title: "iNSANE password",
-      key: "insanePassword",
-      type: "password",
+      title: "Maximum movie file size (GB)",
+      key: "maxMovieSize",
+      type: "number",
     },
     {
-      title: "Enable iTorrent search",
-      key: "enableItorrent",
-      type: "checkbox",
+      title: "Minimum episode file size (GB)",
+      key: "minEpisodeSize",
+      type: "number",
     },
     {
-      title: "Enable YTS search",
-      key: "enableYts",
-      type: "checkbox",
+      title: "Maximum episode file size (GB)",
+      key: "maxEpisodeSize",
+      type: "number",
     },
     {
-      title: "Enable EZTV search",
-      key: "enableEztv",
-      type: "checkbox",
+      title: "Minimum seeders",
+      key: "minSeeders",
+      type: "number",
     },
     {
-      title: "Use titles for torrent search",
-      key: "searchByTitle",
-      type: "checkbox",
+      title: "Maximum results per resolution",
+      key: "maxPerResolution",
+      type: "number",
     },
     {
-      title: "Do not show HDR results",
-      key: "disableHdr",
-      type: "checkbox",
+      title: "Blocked release groups (e.g. YIFY|RARBG)",
+      key: "blockedGroups",
+      type: "text",
     },
     {
-      title: "Do not show HEVC results",
-      key: "disableHevc",
-      type: "checkbox",
+      title: "Preferred release groups (e.g. FLUX|NTb)",
+      key: "allowedGroups",
+      type: "text",
     },
     {
-      title: "Do not show 4K results",
-      key: "disable4k",
-      type: "checkbox",
+      title: "Blocked keywords or /regexes/ (comma separated)",
+      key: "blockedKeywords",
+      type: "text",
     },
     {
-      title: "Do not show CAM results",
-      key: "disableCam",
-      type: "checkbox",
-      default: "checked",
+      title: "Preferred keywords or /regexes/ (comma separated)",
+      key: "allowedKeywords",
+      type: "text",
     },
     {
-      title: "Do not show 3D results",
-      key: "disable3d",
+      title: "Blocked trackers",
+      key: "blockedTrackers",
+      type: "text",
+    },
+    {
+      title: "Preferred trackers",
+      key: "allowedTrackers",
+      type: "text",
+    },
+    {
+      title: "Only show preferred groups, keywords or trackers",
+      key: "onlyAllowed",
       type: "checkbox",
-      default: "checked",
+    },
+    {
+      title: "Ranking profile",
+      key: "rankingProfile",
+      type: "select",
+      options: Object.keys(rankingPresets),
+      default: DEFAULT_RANKING,
+    },
+    {
+      title: "Custom ranking overrides (JSON, see README)",
+      key: "customRanking",
+      type: "text",
     },
   ],
 };
@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import { Request } from "express";
+import fs from "fs-extra";
+import path from "path";
+import { DATA_DIR } from "../utils/data.js";
+import { getSecret } from "../utils/secret.js";
+
+export type ProfileConfig = Record<string, string | undefined>;
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  config: ProfileConfig;
+}
+
+interface StoredProfile extends Omit<Profile, "config"> {
+  /** AES-256-GCM encrypted config, base64 of iv + auth tag + ciphertext */
+  config: string;
+}
+
+const PROFILES_DIR = path.join(DATA_DIR, "profiles");
+
+const CONFIG_KEY = crypto
+  .createHash("sha256")
+  .update(getSecret("CONFIG_SECRET"))
+  .digest();
+
+fs.ensureDirSync(PROFILES_DIR);
+
+const encrypt = (config: ProfileConfig) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", CONFIG_KEY, iv);
+  const data = Buffer.concat([
+    cipher.update(JSON.stringify(config), "utf8"),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64");
+};
+
+const decrypt = (encrypted: string): ProfileConfig => {
+  const buffer = Buffer.from(encrypted, "base64");
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    CONFIG_KEY,
+    buffer.subarray(0, 12)
+  );
+  decipher.setAuthTag(buffer.subarray(12, 28));
+  return JSON.parse(
+    Buffer.concat([
+      decipher.update(buffer.subarray(28)),
+      decipher.final(),
+    ]).toString("utf8")
+  );
+};
+
+/** Profile ids are the only secret in install URLs, so they're unguessable */
+export const isProfileId = (id: string) => /^[\w-]{22}$/.test(id);
+
+const getProfilePath = (id: string) => path.join(PROFILES_DIR, `${id}.json`);
+
+const saveProfile = async (profile: Profile) => {
+  const stored: StoredProfile = { ...profile, config: encrypt(profile.config) };
+  await fs.writeJson(getProfilePath(profile.id), stored, { mode: 0o600 });
+  return profile;
+};
+
+export const getProfile = async (id: string) => {
+  if (!isProfileId(id)) return undefined;
+
+  try {
+    const stored: StoredProfile = await fs.readJson(getProfilePath(id));
+    return { ...stored, config: decrypt(stored.config) } as Profile;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getProfiles = async () => {
+  const files = await fs.readdir(PROFILES_DIR);
+
+  const profiles = await Promise.all(
+    files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => getProfile(file.replace(/\.json$/, "")))
+  );
+
+  return profiles
+    .filter((profile): profile is Profile => !!profile)
+    .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createProfile = async (name: string, config: ProfileConfig) => {
+  const now = Date.now();
+  return await saveProfile({
+    id: crypto.randomBytes(16).toString("base64url"),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    config,
+  });
+};
+
+export const updateProfile = async (
+  id: string,
+  { name, config }: { name?: string; config?: ProfileConfig }
+) => {
+  const profile = await getProfile(id);
+  if (!profile) return undefined;
+
+  return await saveProfile({
+    ...profile,
+    name: name ?? profile.name,
+    config: config ?? profile.config,
+    updatedAt: Date.now(),
+  });
+};
+
+export const duplicateProfile = async (id: string, name?: string) => {
+  const profile = await getProfile(id);
+  if (!profile) return undefined;
+  return await createProfile(name || `${profile.name} (copy)`, profile.config);
+};
+
+/** Revoking deletes the profile, its install URL stops working right away */
+export const revokeProfile = async (id: string) => {
+  if (!isProfileId(id) || !(await fs.pathExists(getProfilePath(id))))
+    return false;
+  await fs.remove(getProfilePath(id));
+  return true;
+};
+
+/**
+ * The SDK router can only parse JSON configs, a profile id in the install URL
+ * reaches the handlers as `false`, so look it up from the raw path segment.
+ */
+export const withProfileConfig =
+  <T extends { config?: unknown; req: Request }, R>(
+    handler: (args: T) => Promise<R>
+  ) =>
+  async (args: T) => {
+    const id = args.req?.params?.config;
+    if (args.config || !id || !isProfileId(id)) return handler(args);
+
+    const profile = await getProfile(id);
+    return handler({ ...args, config: profile?.config });
+  };
@@ -1,14 +1,23 @@
 import { Application } from "express";
 import stremio from "stremio-addon-sdk";
+import { catalogHandler, metaHandler } from "./catalog.js";
 import { streamHandler } from "./streams.js";
+import { subtitlesHandler } from "./subtitles.js";
 import { manifest } from "./manifest.js";
+import { withProfileConfig } from "./profiles.js";
 import { Server } from "http";
 
 export const serveHTTP = async (port: number) => {
   const builder = new stremio.addonBuilder(manifest);
 
   // @ts-ignore
-  builder.defineStreamHandler(streamHandler);
+  builder.defineStreamHandler(withProfileConfig(streamHandler));
+  // @ts-ignore
+  builder.defineSubtitlesHandler(subtitlesHandler);
+  // @ts-ignore
+  builder.defineCatalogHandler(withProfileConfig(catalogHandler));
+  // @ts-ignore
+  builder.defineMetaHandler(metaHandler);
   const addonInterface = builder.getInterface();
 
   // @ts-ignore
@@ -19,5 +28,5 @@ export const serveHTTP = async (port: number) => {
   }: { url: string; server: Server; app: Application } =
     await stremio.serveHTTP(addonInterface, { port });
 
-  return app;
+  return { app, server };
 };
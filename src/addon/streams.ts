@@ -1,40 +1,75 @@
 import { Request } from "express";
 import Stremio from "stremio-addon-sdk";
 
+import { linkTorrentMeta } from "../torrent/metadata.js";
 import {
-  TorrentCategory,
-  TorrentSearchResult,
-  TorrentSource,
-  searchTorrents,
-} from "../torrent/search.js";
-
-import { getTorrentInfo } from "../torrent/webtorrent.js";
-import { getReadableSize, isSubtitleFile, isVideoFile } from "../utils/file.js";
-import { getTitles } from "../utils/imdb.js";
-import { guessLanguage } from "../utils/language.js";
-import { guessQuality } from "../utils/quality.js";
-import { isFileNameMatch, isTorrentNameMatch } from "../utils/shows.js";
+  getEnabledSources,
+  getSourceCredentials,
+} from "../torrent/providers.js";
+import { TorrentCategory, searchTorrents } from "../torrent/search.js";
+
+import {
+  MergedTorrent,
+  dedupeTorrents,
+  resolveTorrents,
+  toMergedTorrent,
+} from "../torrent/merge.js";
+import { TorrentInfo } from "../torrent/webtorrent.js";
+import { getReadableSize, isVideoFile } from "../utils/file.js";
+import {
+  ReleaseFilters,
+  getAllowReasons,
+  hasAllowLists,
+  isBlockedRelease,
+  isBlockedTrackers,
+  parseReleaseFilters,
+} from "../utils/filters.js";
+import {
+  getAbsoluteEpisode,
+  getEpisodeAirDate,
+  isReleaseTitleMatch,
+  isReleaseYearMatch,
+} from "../metadata/matching.js";
+import {
+  Metadata,
+  MetadataType,
+  getMetadata,
+  getSearchTitles,
+} from "../metadata/providers.js";
+import { isImdbId } from "../utils/imdb.js";
+import { getKitsuAnime, isKitsuId } from "../utils/kitsu.js";
+import {
+  StreamLanguages,
+  formatLanguages,
+  getLanguageRank,
+  getStreamLanguages,
+  parsePreferredLanguages,
+} from "../utils/language.js";
+import { getQuality, getQualityParts, isCamSource } from "../utils/quality.js";
+import { getRankingProfile, getRankingScore } from "../utils/ranking.js";
+import {
+  ParsedRelease,
+  ReleaseFlag,
+  Resolution,
+  VideoCodec,
+  parseReleaseName,
+} from "../utils/release.js";
+import {
+  EpisodeQuery,
+  getFileEpisodeInfo,
+  isExtraFile,
+  isFileNameMatch,
+  isTorrentNameMatch,
+} from "../utils/shows.js";
+import { getVideoSubtitles } from "../utils/subtitles.js";
+import { getStreamUrl } from "../utils/token.js";
+import { getTorrentStreams, isTorrentId } from "./catalog.js";
+import { getSubtitleFiles, rememberStreamFile } from "./subtitles.js";
 
 interface HandlerArgs {
   type: string;
   id: string;
   config?: {
-    enableJackett: string;
-    jackettUrl: string;
-    jackettKey: string;
-
-    enableNcore: string;
-    nCoreUser: string;
-    nCorePassword: string;
-
-    enableInsane: string;
-    insaneUser: string;
-    insanePassword: string;
-
-    enableItorrent: string;
-    enableYts: string;
-    enableEztv: string;
-
     searchByTitle: string;
 
     disableHdr: string;
@@ -42,98 +77,204 @@ interface HandlerArgs {
     disable4k: string;
     disableCam: string;
     disable3d: string;
+
+    /** Comma separated language names or codes, most preferred first */
+    preferredLanguages: string;
+    onlyPreferredLanguages: string;
+
+    /** Preset id from rankingPresets, optionally with JSON overrides */
+    rankingProfile: string;
+    customRanking: string;
+
+    /** File size limits in GB, empty means no limit */
+    minMovieSize: string;
+    maxMovieSize: string;
+    minEpisodeSize: string;
+    maxEpisodeSize: string;
+    minSeeders: string;
+    maxPerResolution: string;
+
+    /** Comma or pipe separated group and tracker names, see filters.ts */
+    blockedGroups: string;
+    allowedGroups: string;
+    /** Comma separated keywords or /regexes/ */
+    blockedKeywords: string;
+    allowedKeywords: string;
+    blockedTrackers: string;
+    allowedTrackers: string;
+    onlyAllowed: string;
+
+    /** Source toggles and credentials, see SourceProvider */
+    [key: string]: string | undefined;
   };
   req: Request;
 }
 
 const defaultStreamConfig: NonNullable<HandlerArgs["config"]> = {
-  enableJackett: "",
-  jackettUrl: "",
-  jackettKey: "",
-  enableNcore: "",
-  nCoreUser: "",
-  nCorePassword: "",
-  enableInsane: "",
-  insaneUser: "",
-  insanePassword: "",
-  enableItorrent: "",
-  enableYts: "",
-  enableEztv: "",
   searchByTitle: "",
   disableHdr: "",
   disableHevc: "",
   disable4k: "",
   disableCam: "",
   disable3d: "",
+  preferredLanguages: "",
+  onlyPreferredLanguages: "",
+  rankingProfile: "",
+  customRanking: "",
+  minMovieSize: "",
+  maxMovieSize: "",
+  minEpisodeSize: "",
+  maxEpisodeSize: "",
+  minSeeders: "",
+  maxPerResolution: "",
+  blockedGroups: "",
+  allowedGroups: "",
+  blockedKeywords: "",
+  allowedKeywords: "",
+  blockedTrackers: "",
+  allowedTrackers: "",
+  onlyAllowed: "",
 };
 
 export const streamHandler = async ({ type, id, config: cfg, req }: HandlerArgs) => {
+  if (isTorrentId(id)) return getTorrentStreams(req, id);
+
   const config = { ...defaultStreamConfig, ...cfg };
-  let torrents: TorrentSearchResult[] = [];
+  let torrents: MergedTorrent[] = [];
   const categories: TorrentCategory[] = [];
 
   if (type === "movie") categories.push("movie");
   if (type === "series") categories.push("show");
 
-  const sources: TorrentSource[] = [];
-  if (config.enableJackett === "on") sources.push("jackett");
-  if (config.enableNcore === "on") sources.push("ncore");
-  if (config.enableInsane === "on") sources.push("insane");
-  if (config.enableItorrent === "on") sources.push("itorrent");
-  if (config.enableYts === "on") sources.push("yts");
-  if (config.enableEztv === "on") sources.push("eztv");
+  const sources = getEnabledSources(config);
+  const credentials = getSourceCredentials(config);
+
+  // Kitsu ids have no IMDb id to search for, only titles
+  const anime = isKitsuId(id) ? await getKitsuAnime(id) : undefined;
+  if (isKitsuId(id) && !anime) return { streams: [] };
 
   const [imdbId, season, episode] = id.split(":");
-  const queries = [imdbId];
+  const queries = anime ? anime.titles : [imdbId];
 
-  if (config.searchByTitle === "on") queries.push(...(await getTitles(imdbId)));
+  if (anime || type === "anime") categories.push("anime");
+
+  const metaType: MetadataType = type === "movie" ? "movie" : "series";
+  const meta =
+    !anime && isImdbId(imdbId)
+      ? await getMetadata(imdbId, metaType)
+      : undefined;
+
+  if (meta && config.searchByTitle === "on")
+    queries.push(...getSearchTitles(meta));
 
   torrents = (
     await Promise.all(
-      queries.map((query) =>
-        searchTorrents(query, {
-          categories,
-          sources,
-          jackett: { url: config.jackettUrl, apiKey: config.jackettKey },
-          ncore: { user: config.nCoreUser, password: config.nCorePassword },
-          insane: { user: config.insaneUser, password: config.insanePassword },
-        })
+      queries.map(async (query) =>
+        (
+          await searchTorrents(query, {
+            categories,
+            sources,
+            credentials,
+          })
+        ).map((torrent) => toMergedTorrent(torrent, query === imdbId))
       )
     )
   ).flat();
 
-  torrents = dedupeTorrents(torrents);
+  let mergedTorrents = dedupeTorrents(torrents);
+  const filters = parseReleaseFilters(config);
+
+  let query: EpisodeQuery | undefined;
+
+  if (anime?.episode) {
+    // Kitsu numbers the episodes of each entry from one, so they're only
+    // absolute numbers in the first season
+    query = {
+      season: anime.season,
+      episode: anime.episode,
+      absoluteEpisode: anime.season === 1 ? anime.episode : undefined,
+    };
+  } else if (season && episode) {
+    query = getEpisodeQuery(meta, Number(season), Number(episode));
+  }
 
-  torrents = torrents.filter((torrent) => {
+  mergedTorrents = mergedTorrents.filter((torrent) => {
     if (!torrent.seeds) return false;
     if (torrent.category?.includes("DVD")) return false;
-    if (!isAllowedFormat(config, torrent.name)) return false;
-    if (!isAllowedQuality(config, guessQuality(torrent.name).quality)) return false;
 
-    if (
-      season &&
-      episode &&
-      !isTorrentNameMatch(torrent.name, Number(season), Number(episode))
-    )
+    const release = parseReleaseName(torrent.name);
+    if (!isAllowedRelease(config, release)) return false;
+    if (isBlockedRelease(filters, torrent.name, release)) return false;
+    if (isBlockedTrackers(filters, torrent.trackers)) return false;
+
+    if (meta && !isReleaseYearMatch(meta, release, metaType)) return false;
+    // Results of IMDb id searches are already known to be the right title
+    if (meta && !torrent.matchedById && !isReleaseTitleMatch(meta, release))
       return false;
 
+    if (query && !isTorrentNameMatch(release, query)) return false;
+
     return true;
   });
 
-  let streams = (
-    await Promise.all(
-      torrents.map((torrent) => getStreamsFromTorrent(req, torrent, season, episode))
-    )
-  ).flat();
+  const resolvedTorrents = await resolveTorrents(mergedTorrents);
+
+  const metaId = anime ? id.split(":").slice(0, 2).join(":") : imdbId;
+  for (const { torrentInfo } of resolvedTorrents)
+    linkTorrentMeta(torrentInfo.infoHash, { id: metaId, type });
+
+  let streams = resolvedTorrents.flatMap(({ torrent, torrentInfo }) =>
+    getStreamsFromTorrent(req, torrent, torrentInfo, query, filters)
+  );
+
+  const isEpisode = !!query;
+  const minSize = getSizeLimit(
+    isEpisode ? config.minEpisodeSize : config.minMovieSize
+  );
+  const maxSize = getSizeLimit(
+    isEpisode ? config.maxEpisodeSize : config.maxMovieSize
+  );
+  const minSeeders = Number(config.minSeeders) || 0;
 
   streams = streams.filter((stream) => {
-    if (!isAllowedFormat(config, stream.fileName)) return false;
-    if (!isAllowedQuality(config, stream.quality)) return false;
+    if (!isAllowedRelease(config, stream.fileRelease)) return false;
+    if (!isAllowedRelease(config, stream.release)) return false;
+    if (isBlockedRelease(filters, stream.fileName, stream.fileRelease))
+      return false;
+    if (minSize && stream.size < minSize) return false;
+    if (maxSize && stream.size > maxSize) return false;
+    if (stream.seeds < minSeeders) return false;
     return true;
   });
 
-  streams.sort((a, b) => {
-    // 1) Quality (higher score first)
+  const preferredLanguages = parsePreferredLanguages(config.preferredLanguages);
+
+  if (config.onlyPreferredLanguages === "on" && preferredLanguages.length) {
+    streams = streams.filter(
+      (stream) =>
+        getLanguageRank(stream.languages, preferredLanguages) <
+        2 * preferredLanguages.length
+    );
+  }
+
+  const ranking = getRankingProfile(
+    config.rankingProfile,
+    config.customRanking
+  );
+
+  let rankedStreams = streams.map((stream) => ({
+    ...stream,
+    score: getRankingScore(ranking, stream, preferredLanguages),
+  }));
+
+  if (config.onlyAllowed === "on" && hasAllowLists(filters)) {
+    rankedStreams = rankedStreams.filter(
+      (stream) => stream.allowReasons.length
+    );
+  }
+
+  rankedStreams.sort((a, b) => {
+    // 1) Ranking profile score (higher first)
     if (b.score !== a.score) return b.score - a.score;
 
     // 2) Size (bigger file first)
@@ -143,110 +284,154 @@ export const streamHandler = async ({ type, id, config: cfg, req }: HandlerArgs)
     return (b.seeds || 0) - (a.seeds || 0);
   });
 
-  return { streams: streams.map((stream) => stream.stream) };
+  const maxPerResolution = Number(config.maxPerResolution) || 0;
+
+  return {
+    streams: (maxPerResolution
+      ? limitPerResolution(rankedStreams, maxPerResolution)
+      : rankedStreams
+    ).map((stream) => stream.stream),
+  };
 };
 
-const dedupeTorrents = (torrents: TorrentSearchResult[]) => {
-  const map = new Map(
-    torrents.map((torrent) => [`${torrent.tracker}:${torrent.name}`, torrent])
-  );
-  return [...map.values()];
+const getEpisodeQuery = (
+  meta: Metadata | undefined,
+  season: number,
+  episode: number
+): EpisodeQuery => ({
+  season,
+  episode,
+  airDate: meta && getEpisodeAirDate(meta, season, episode),
+  absoluteEpisode: meta && getAbsoluteEpisode(meta, season, episode),
+});
+
+const getSizeLimit = (gb: string) => Math.max(0, Number(gb) || 0) * 1024 ** 3;
+
+/** Keeps the first (best ranked) streams of each resolution */
+const limitPerResolution = <T extends { release: ParsedRelease }>(
+  streams: T[],
+  limit: number
+) => {
+  const counts = new Map<string, number>();
+
+  return streams.filter(({ release }) => {
+    const key = release.resolution || "unknown";
+    const count = counts.get(key) || 0;
+    counts.set(key, count + 1);
+    return count < limit;
+  });
 };
 
-export const getStreamsFromTorrent = async (
+export const getStreamsFromTorrent = (
   req: Request,
-  torrent: TorrentSearchResult,
-  season?: string,
-  episode?: string
-): Promise<
-  {
-    stream: Stremio.Stream;
-    torrentName: string;
-    fileName: string;
-    quality: string;
-    score: number;
-    size: number;
-    seeds: number;
-  }[]
-> => {
-  const uri = torrent.torrent || torrent.magnet;
-  if (!uri) return [];
-
-  const torrentInfo = await getTorrentInfo(uri);
-  if (!torrentInfo) return [];
-
-  let videos = torrentInfo.files.filter((file) => isVideoFile(file.name));
-
-  if (season && episode) {
+  torrent: MergedTorrent,
+  torrentInfo: TorrentInfo,
+  query?: EpisodeQuery,
+  filters?: ReleaseFilters
+): {
+  stream: Stremio.Stream;
+  torrentName: string;
+  fileName: string;
+  /** Parsed torrent or file name, whichever tells more about the quality */
+  release: ParsedRelease;
+  fileRelease: ParsedRelease;
+  languages: StreamLanguages;
+  /** Why the stream matches the allow lists, if it does */
+  allowReasons: string[];
+  quality: string;
+  size: number;
+  seeds: number;
+}[] => {
+  const allVideos = torrentInfo.files.filter(
+    (file) => isVideoFile(file.name) && !isExtraFile(file.path || file.name)
+  );
+  let videos = allVideos;
+
+  if (query) {
     videos = videos.filter((file) =>
-      isFileNameMatch(file.name, Number(season), Number(episode))
+      isFileNameMatch(getFileEpisodeInfo(file.path || file.name), query)
     );
-
-    const videosSize = videos.reduce((acc, file) => acc + file.size, 0);
-    videos = videos.filter((file) => file.size > videosSize / (videos.length + 1));
   }
 
-  const subs = torrentInfo.files.filter((file) => isSubtitleFile(file.name));
-  const torrentQuality = guessQuality(torrent.name);
-  const language = guessLanguage(torrent.name, torrent.category);
+  const subs = getSubtitleFiles(torrentInfo);
+  const torrentRelease = parseReleaseName(torrent.name);
 
   // @ts-ignore
   return videos.map((file) => {
-    const fileQuality = guessQuality(file.name);
-    const { quality, score } =
-      fileQuality.score > torrentQuality.score ? fileQuality : torrentQuality;
+    const fileRelease = parseReleaseName(file.name);
+    const release =
+      getQualityParts(fileRelease).length >
+      getQualityParts(torrentRelease).length
+        ? fileRelease
+        : torrentRelease;
+    const quality = getQuality(release);
+    const languages = getStreamLanguages(
+      torrentRelease,
+      torrent.category,
+      getVideoSubtitles(file, allVideos, subs).map((sub) => sub.path)
+    );
+
+    const allowReasons = filters
+      ? getAllowReasons(
+          filters,
+          [
+            { name: torrent.name, release: torrentRelease },
+            { name: file.name, release: fileRelease },
+          ],
+          torrent.trackers
+        )
+      : [];
 
     const description = [
-      ...(season && episode ? [torrent.name, file.name] : [torrent.name]),
+      ...(query ? [torrent.name, file.name] : [torrent.name]),
       `💾 ${getReadableSize(file.size)} ⬆️ ${torrent.seeds}  ⬇️ ${torrent.peers}`,
-      [`🔊 ${language}`, `⚙️ ${torrent.tracker}`].join(" "),
+      [formatLanguages(languages), `⚙️ ${torrent.trackers.join(", ")}`].join(
+        " "
+      ),
+      ...(allowReasons.length ? [`⭐ ${allowReasons.join(", ")}`] : []),
     ].join("\n");
 
-    const streamEndpoint = `${req.protocol}://${req.get("host")}/stream`;
-    const url = [streamEndpoint, encodeURIComponent(uri), encodeURIComponent(file.path)].join("/");
+    const fileIndex = torrentInfo.files.indexOf(file);
+    const url = getStreamUrl(req, torrentInfo.infoHash, fileIndex, file.name);
 
-    const subtitles = subs.map((sub, index) => ({
-      id: index.toString(),
-      url: [streamEndpoint, encodeURIComponent(uri), encodeURIComponent(sub.path)].join("/"),
-      lang: sub.name,
-    }));
+    // Subtitles are served by the subtitles resource, see subtitles.ts
+    rememberStreamFile(torrentInfo, fileIndex);
 
     return {
       stream: {
         name: quality,
         description,
         url,
-        subtitles,
         behaviorHints: {
           bingeGroup: torrent.name,
+          filename: file.name,
+          videoSize: file.size,
         },
       },
       torrentName: torrent.name,
       fileName: file.name,
+      release,
+      fileRelease,
+      languages,
+      allowReasons,
       quality,
-      score,
       size: file.size,
       seeds: torrent.seeds || 0,
     };
   });
 };
 
-const isAllowedQuality = (config: HandlerArgs["config"], quality: string) => {
-  if (config?.disable4k === "on" && quality.includes("4K")) return false;
-  if (config?.disableCam === "on" && quality.includes("CAM")) return false;
-  if (
-    config?.disableHdr === "on" &&
-    (quality.includes("HDR") || quality.includes("Dolby Vision"))
-  )
+const isAllowedRelease = (
+  config: HandlerArgs["config"],
+  release: ParsedRelease
+) => {
+  if (config?.disable4k === "on" && release.resolution === Resolution.UHD)
+    return false;
+  if (config?.disableCam === "on" && isCamSource(release.source)) return false;
+  if (config?.disableHdr === "on" && release.hdr.length) return false;
+  if (config?.disable3d === "on" && release.flags.includes(ReleaseFlag.ThreeD))
+    return false;
+  if (config?.disableHevc === "on" && release.codec === VideoCodec.HEVC)
     return false;
-  if (config?.disable3d === "on" && quality.includes("3D")) return false;
-  return true;
-};
-
-const isAllowedFormat = (config: HandlerArgs["config"], name: string) => {
-  if (config?.disableHevc === "on") {
-    const str = name.replace(/\W/g, "").toLowerCase();
-    if (str.includes("x265") || str.includes("h265") || str.includes("hevc")) return false;
-  }
   return true;
 };
@@ -0,0 +1,181 @@
+import { Request } from "express";
+import { Readable } from "stream";
+import { TorrentFile } from "webtorrent";
+import { getCachedTorrentInfo } from "../torrent/metadata.js";
+import {
+  TorrentInfo,
+  getFile,
+  getOrAddTorrent,
+  streamClosed,
+  streamOpened,
+} from "../torrent/webtorrent.js";
+import { createCache } from "../utils/cache.js";
+import { isSubtitleFile, isVideoFile } from "../utils/file.js";
+import { getLanguageInfo, getSubtitleLanguage } from "../utils/language.js";
+import { isExtraFile } from "../utils/shows.js";
+import {
+  convertToVtt,
+  decodeSubtitle,
+  getSubtitleFormat,
+  getVideoSubtitles,
+} from "../utils/subtitles.js";
+import { getSubtitleUrl } from "../utils/token.js";
+
+interface HandlerArgs {
+  type: string;
+  id: string;
+  extra: {
+    /** Set from the stream's behaviorHints */
+    filename?: string;
+    videoSize?: string;
+    videoHash?: string;
+  };
+  req: Request;
+}
+
+/** Larger files aren't text subtitles */
+const MAX_SUBTITLE_SIZE = 5 * 1024 * 1024;
+
+const MAX_STREAM_FILES = 10000;
+
+/** Dead torrents never finish the read, give up so the torrent is released */
+const SUBTITLE_TIMEOUT = Number(process.env.SUBTITLE_TIMEOUT) || 30 * 1000;
+
+export class SubtitleTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SubtitleTimeoutError";
+  }
+}
+
+/**
+ * Stremio only sends the file name and size of the playing video with
+ * subtitle requests, so streams are remembered by those when listed.
+ */
+const streamFiles = new Map<string, { infoHash: string; fileIndex: number }>();
+
+const vttCache = createCache<string>({ ttl: 60 * 60 * 1000 });
+
+const getStreamFileKey = (fileName: string, size: number | string) =>
+  `${size}:${fileName}`;
+
+export const rememberStreamFile = (
+  torrentInfo: TorrentInfo,
+  fileIndex: number
+) => {
+  const file = torrentInfo.files[fileIndex];
+  const key = getStreamFileKey(file.name, file.size);
+
+  streamFiles.delete(key);
+  streamFiles.set(key, { infoHash: torrentInfo.infoHash, fileIndex });
+
+  // Maps keep insertion order, the first key is the oldest
+  if (streamFiles.size > MAX_STREAM_FILES)
+    streamFiles.delete(streamFiles.keys().next().value!);
+};
+
+/** VobSub .sub files come with an .idx file and are images, not text */
+export const getSubtitleFiles = (torrentInfo: TorrentInfo) => {
+  const paths = new Set(torrentInfo.files.map((file) => file.path));
+
+  return torrentInfo.files.filter(
+    (file) =>
+      isSubtitleFile(file.name) &&
+      !(
+        file.name.toLowerCase().endsWith(".sub") &&
+        paths.has(file.path.replace(/\.sub$/i, ".idx"))
+      )
+  );
+};
+
+export const getStreamSubtitles = (
+  req: Request,
+  torrentInfo: TorrentInfo,
+  fileIndex: number
+): { id: string; url: string; lang: string }[] => {
+  const video = torrentInfo.files[fileIndex];
+  const videos = torrentInfo.files.filter(
+    (file) => isVideoFile(file.name) && !isExtraFile(file.path || file.name)
+  );
+
+  return getVideoSubtitles(video, videos, getSubtitleFiles(torrentInfo)).map(
+    (sub) => {
+      const index = torrentInfo.files.indexOf(sub);
+      const language = getSubtitleLanguage(sub.path || sub.name);
+
+      return {
+        id: `${torrentInfo.infoHash}:${index}`,
+        url: getSubtitleUrl(req, torrentInfo.infoHash, index, sub.name),
+        lang: getLanguageInfo(language || "")?.code3 || language || "und",
+      };
+    }
+  );
+};
+
+export const subtitlesHandler = async ({ extra, req }: HandlerArgs) => {
+  if (!extra?.filename || !extra.videoSize) return { subtitles: [] };
+
+  const streamFile = streamFiles.get(
+    getStreamFileKey(extra.filename, extra.videoSize)
+  );
+  if (!streamFile) return { subtitles: [] };
+
+  const torrentInfo = await getCachedTorrentInfo(streamFile.infoHash);
+  if (!torrentInfo) return { subtitles: [] };
+
+  return {
+    subtitles: getStreamSubtitles(req, torrentInfo, streamFile.fileIndex),
+  };
+};
+
+const readFile = (file: TorrentFile, timeout: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    // A streamx Readable, typed as the NodeJS interface without destroy()
+    const stream = file.createReadStream() as Readable;
+
+    const timer = setTimeout(() => {
+      stream.destroy();
+      reject(
+        new SubtitleTimeoutError(`Reading ${file.name} took over ${timeout}ms`)
+      );
+    }, timeout);
+
+    stream
+      .on("data", (chunk: Buffer) => chunks.push(chunk))
+      .on("end", () => {
+        clearTimeout(timer);
+        resolve(Buffer.concat(chunks));
+      })
+      .on("error", (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+  });
+
+/** Downloads a subtitle file from the torrent and converts it to WebVTT */
+export const getSubtitleVtt = async (infoHash: string, fileIndex: number) => {
+  const key = `${infoHash}:${fileIndex}`;
+  const cached = vttCache.get(key);
+  if (cached) return cached.value;
+
+  const torrent = await getOrAddTorrent(infoHash);
+  if (!torrent) return undefined;
+
+  const file = getFile(torrent, fileIndex);
+  const format = file && getSubtitleFormat(file.name);
+  if (!file || !format || file.length > MAX_SUBTITLE_SIZE) return undefined;
+
+  streamOpened(infoHash, file.name);
+  try {
+    const text = decodeSubtitle(
+      await readFile(file, SUBTITLE_TIMEOUT),
+      getSubtitleLanguage(file.path || file.name)
+    );
+    const vtt = convertToVtt(text, format);
+    vttCache.set(key, vtt);
+    return vtt;
+  } finally {
+    streamClosed(infoHash, file.name);
+  }
+};
@@ -1,17 +1,57 @@
 import "./utils/dotenv.js";
 
 import express from "express";
+import { Server } from "http";
 import { serveHTTP } from "./addon/server.js";
 import { router } from "./router.js";
+import { flushCacheStates } from "./torrent/disk.js";
+import { flushMetadataIndexes } from "./torrent/metadata.js";
+import {
+  restoreActiveTorrents,
+  stopSavingActiveTorrents,
+} from "./torrent/restore.js";
+import { destroyClients } from "./torrent/webtorrent.js";
 import { serveHTTPS } from "./utils/https.js";
 
 const PORT = Number(process.env.PORT) || 58827;
 const HTTPS_PORT = Number(process.env.HTTPS_PORT) || 58828;
 
+/** Exits anyway if closing streams or torrents hangs */
+const SHUTDOWN_TIMEOUT = Number(process.env.SHUTDOWN_TIMEOUT) || 10 * 1000;
+
+/**
+ * Stops taking requests, ends the open streams and saves the active torrents
+ * and pending state so they're restored at the next start.
+ */
+const shutdown = async (signal: string, servers: Server[]) => {
+  console.log(`Received ${signal}, shutting down`);
+  setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT).unref();
+
+  await stopSavingActiveTorrents();
+
+  for (const server of servers) {
+    server.close();
+    server.closeAllConnections();
+  }
+
+  // Pins and indexes are written a second after they change
+  await Promise.all([flushCacheStates(), flushMetadataIndexes()]);
+
+  // Keeps the files on disk for the restored torrents
+  await destroyClients();
+  process.exit(0);
+};
+
 const main = async () => {
-  const app = await serveHTTP(PORT);
+  await restoreActiveTorrents();
+
+  const { app, server } = await serveHTTP(PORT);
   app.use(express.json()).use(router);
-  await serveHTTPS(app, HTTPS_PORT);
+  const httpsServer = await serveHTTPS(app, HTTPS_PORT);
+
+  const servers = httpsServer ? [server, httpsServer] : [server];
+  for (const signal of ["SIGTERM", "SIGINT"])
+    process.once(signal, () => shutdown(signal, servers));
 };
 
 main();
@@ -0,0 +1,62 @@
+import axios from "axios";
+import { MetadataProvider, MetadataVideo } from "./providers.js";
+
+/** Any addon serving Cinemeta compatible meta responses works */
+const CINEMETA_URL = process.env.CINEMETA_URL || "https://v3-cinemeta.strem.io";
+
+/** Per request, the next provider is asked when it runs out */
+const META_TIMEOUT = Number(process.env.META_TIMEOUT) || 10 * 1000;
+
+interface CinemetaVideo {
+  season?: number;
+  episode?: number;
+  released?: string;
+}
+
+interface CinemetaMeta {
+  name?: string;
+  releaseInfo?: string;
+  year?: string;
+  /** e.g. "45 min" */
+  runtime?: string;
+  videos?: CinemetaVideo[];
+}
+
+/** e.g. "2011–2019", "2011–" or "2021" */
+const parseYears = (value?: string) => {
+  const [start, end] = String(value ?? "")
+    .split(/[–-]/)
+    .map((year) => Number(year.trim()) || undefined);
+  return { year: start, endYear: end };
+};
+
+export const cinemetaProvider: MetadataProvider = {
+  id: "cinemeta",
+  name: "Cinemeta",
+  getMetadata: async (imdbId, type) => {
+    const { meta } = (
+      await axios.get<{ meta?: CinemetaMeta }>(
+        `${CINEMETA_URL}/meta/${type}/${imdbId}.json`,
+        { timeout: META_TIMEOUT }
+      )
+    ).data;
+
+    if (!meta?.name) return undefined;
+
+    return {
+      title: meta.name,
+      ...parseYears(meta.releaseInfo || meta.year),
+      runtime: parseInt(meta.runtime ?? "") || undefined,
+      videos: (meta.videos ?? [])
+        .filter(
+          (video): video is CinemetaVideo & MetadataVideo =>
+            Number.isInteger(video.season) && Number.isInteger(video.episode)
+        )
+        .map((video): MetadataVideo => ({
+          season: video.season,
+          episode: video.episode,
+          released: video.released || undefined,
+        })),
+    };
+  },
+};
@@ -0,0 +1,95 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { MetadataProvider } from "./providers.js";
+
+/** Per request, the next provider is asked when it runs out */
+const META_TIMEOUT = Number(process.env.META_TIMEOUT) || 10 * 1000;
+
+interface TitlePage {
+  title?: string;
+  originalTitle?: string;
+  alternateName?: string;
+  year?: number;
+  endYear?: number;
+  runtime?: number;
+}
+
+/** The parts of the schema.org Movie or TVSeries data we use */
+interface TitleJsonLd {
+  alternateName?: string;
+  datePublished?: string;
+  duration?: string;
+}
+
+/** e.g. "PT2H35M" */
+const parseDuration = (value?: string) => {
+  const match = value?.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/);
+  if (!match) return undefined;
+  return Number(match[1] || 0) * 60 + Number(match[2] || 0) || undefined;
+};
+
+/** IMDb shows the title in the language asked for, if it has one */
+const getTitlePage = async (
+  imdbId: string,
+  language: string
+): Promise<TitlePage> => {
+  const html = (
+    await axios.get<string>(`https://www.imdb.com/title/${imdbId}/`, {
+      headers: {
+        "Accept-Language": language,
+        "Accept-Encoding": "gzip,deflate,compress",
+      },
+      responseType: "text",
+      timeout: META_TIMEOUT,
+    })
+  ).data;
+
+  const $ = cheerio.load(html);
+
+  // e.g. "Dune: Part One (2021) - IMDb" or "Lost (TV Series 2004–2010) - IMDb"
+  const pageTitle = $("title").first().text();
+  const [title] = pageTitle.split(" (");
+  const years = pageTitle.match(/\((?:[^)]*?\s)?(\d{4})(?:–(\d{4})?)?\)/);
+
+  let jsonLd: TitleJsonLd = {};
+  try {
+    jsonLd = JSON.parse($('script[type="application/ld+json"]').first().text());
+  } catch {}
+
+  const originalTitle = $('[data-testid="hero-title-block__original-title"]')
+    .first()
+    .text()
+    .replace(/^Original title:\s*/i, "");
+
+  return {
+    title: title.trim() || undefined,
+    originalTitle: originalTitle.trim() || undefined,
+    alternateName: jsonLd.alternateName,
+    year:
+      Number(years?.[1]) ||
+      Number(String(jsonLd.datePublished).slice(0, 4)) ||
+      undefined,
+    endYear: Number(years?.[2]) || undefined,
+    runtime: parseDuration(jsonLd.duration),
+  };
+};
+
+/** Only a fallback for titles Cinemeta doesn't have or has gaps in */
+export const imdbProvider: MetadataProvider = {
+  id: "imdb",
+  name: "IMDb",
+  getMetadata: async (imdbId, type, language) => {
+    const page = await getTitlePage(imdbId, language || "en");
+    if (!page.title) return undefined;
+
+    return {
+      title: page.title,
+      originalTitle: page.originalTitle,
+      localizedTitles: language ? [page.title] : [],
+      aliases: page.alternateName ? [page.alternateName] : [],
+      year: page.year,
+      endYear: page.endYear,
+      runtime: page.runtime,
+    };
+  },
+};
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parseReleaseName } from "../utils/release.js";
+import { isReleaseTitleMatch } from "./matching.js";
+import { Metadata } from "./providers.js";
+
+const meta = (title: string, extra?: Partial<Metadata>): Metadata => ({
+  title,
+  localizedTitles: [],
+  aliases: [],
+  videos: [],
+  ...extra,
+});
+
+describe("isReleaseTitleMatch", () => {
+  const cases: [Metadata, string, boolean][] = [
+    [meta("Schindler's List"), "Schindlers.List.1993.1080p.BluRay", true],
+    [meta("Ocean's Eleven"), "Oceans.Eleven.2001.720p.BluRay", true],
+    [meta("Ocean’s Eleven"), "Oceans Eleven 2001 1080p WEB", true],
+    [
+      meta("Marvel's Agents of S.H.I.E.L.D."),
+      "Marvels.Agents.of.S.H.I.E.L.D.S01E01.720p.HDTV",
+      true,
+    ],
+    [meta("Amélie"), "Amelie.2001.1080p.BluRay", true],
+    [meta("Fast & Furious"), "Fast.and.Furious.2009.1080p.BluRay", true],
+    [meta("The Matrix"), "Matrix.1999.1080p.BluRay", true],
+    [meta("Dune: Part One"), "Dune.2021.2160p.WEB", true],
+    [
+      meta("Spirited Away", { localizedTitles: ["Chihiro Szellemországban"] }),
+      "Chihiro.Szellemorszagban.2001.1080p.BluRay",
+      true,
+    ],
+    [meta("Schindler's List"), "Schindler.2023.1080p.WEB", false],
+  ];
+
+  for (const [metadata, name, expected] of cases) {
+    test(`${metadata.title} ${name}`, () => {
+      assert.equal(
+        isReleaseTitleMatch(metadata, parseReleaseName(name)),
+        expected
+      );
+    });
+  }
+});
@@ -0,0 +1,77 @@
+import { ParsedRelease } from "../utils/release.js";
+import { Metadata, MetadataType } from "./providers.js";
+
+/**
+ * e.g. "Amélie" and "amelie", "Fast & Furious" and "Fast and Furious",
+ * "Schindler's List" and "Schindlers List"
+ */
+const normalizeTitle = (title: string) =>
+  title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/^the /, "")
+    .trim();
+
+/**
+ * Release names often leave out subtitles, so "Dune 2021" matches
+ * "Dune: Part One". The year check tells it apart from the 1984 film.
+ */
+const getTitleVariants = (meta: Metadata) =>
+  new Set(
+    [meta.title, meta.originalTitle, ...meta.localizedTitles, ...meta.aliases]
+      .filter((title): title is string => !!title)
+      .flatMap((title) => [title, title.split(/: | - /)[0]])
+      .map(normalizeTitle)
+      .filter(Boolean)
+  );
+
+export const isReleaseTitleMatch = (meta: Metadata, release: ParsedRelease) =>
+  getTitleVariants(meta).has(normalizeTitle(release.title));
+
+/**
+ * Releases without a year always match. Movies may be a year off (festival
+ * vs. theatrical release), series releases fall into their run.
+ */
+export const isReleaseYearMatch = (
+  meta: Metadata,
+  release: ParsedRelease,
+  type: MetadataType
+) => {
+  if (!release.year || !meta.year) return true;
+
+  const lastYear =
+    type === "series" ? (meta.endYear ?? new Date().getFullYear()) : meta.year;
+
+  return release.year >= meta.year - 1 && release.year <= lastYear + 1;
+};
+
+/** Release date of an episode, used to match daily shows */
+export const getEpisodeAirDate = (
+  meta: Metadata,
+  season: number,
+  episode: number
+) =>
+  meta.videos
+    .find((video) => video.season === season && video.episode === episode)
+    ?.released?.slice(0, 10);
+
+/** Episode number counted from the start of the show, specials excluded */
+export const getAbsoluteEpisode = (
+  meta: Metadata,
+  season: number,
+  episode: number
+) => {
+  if (season < 1) return undefined;
+  if (!meta.videos.some((video) => video.season === season)) return undefined;
+
+  return meta.videos.filter(
+    (video) =>
+      video.season > 0 &&
+      (video.season < season ||
+        (video.season === season && video.episode <= episode))
+  ).length;
+};
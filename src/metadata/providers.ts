@@ -0,0 +1,150 @@
+import { createCache } from "../utils/cache.js";
+import { cinemetaProvider } from "./cinemeta.js";
+import { imdbProvider } from "./imdb.js";
+
+export type MetadataType = "movie" | "series";
+
+export interface MetadataVideo {
+  season: number;
+  episode: number;
+  /** ISO date, e.g. "2024-03-14T00:00:00.000Z" */
+  released?: string;
+}
+
+export interface Metadata {
+  /** English title */
+  title: string;
+  /** Title in the original language, if it's different */
+  originalTitle?: string;
+  /** Titles shown in other countries, e.g. on Hungarian trackers */
+  localizedTitles: string[];
+  /** Working titles, abbreviations and other alternate names */
+  aliases: string[];
+  /** First release year, the start year of series */
+  year?: number;
+  /** Last year of ended series */
+  endYear?: number;
+  /** In minutes, per episode for series */
+  runtime?: number;
+  videos: MetadataVideo[];
+}
+
+export interface MetadataProvider {
+  id: string;
+  name: string;
+  /** Should throw on failure, the next provider is only asked if it does */
+  getMetadata: (
+    imdbId: string,
+    type: MetadataType,
+    /** META_LANGUAGE, e.g. "hu", for the localized titles */
+    language?: string
+  ) => Promise<Partial<Metadata> | undefined>;
+}
+
+const META_CACHE_TTL =
+  Number(process.env.META_CACHE_TTL) || 24 * 60 * 60 * 1000;
+
+const META_CACHE_DIR = process.env.META_CACHE_DIR;
+
+/** Language of the titles on local trackers, e.g. "hu" */
+const META_LANGUAGE = process.env.META_LANGUAGE;
+
+const metaCache = createCache<Metadata>({
+  ttl: META_CACHE_TTL,
+  dir: META_CACHE_DIR,
+});
+
+const pendingLookups = new Map<string, Promise<Metadata | undefined>>();
+
+const providers: MetadataProvider[] = [];
+
+export const registerMetadataProvider = (provider: MetadataProvider) => {
+  providers.push(provider);
+};
+
+export const getMetadataProviders = () => [...providers];
+
+const unique = (titles: (string | undefined)[]) => [
+  ...new Set(titles.filter((title): title is string => !!title?.trim())),
+];
+
+/** Earlier providers win, later ones only fill in what's missing */
+const mergeMetadata = (results: Partial<Metadata>[]): Metadata | undefined => {
+  const title = results.find((meta) => meta.title)?.title;
+  if (!title) return undefined;
+
+  const pick = <K extends keyof Metadata>(key: K) =>
+    results.find((meta) => meta[key] !== undefined)?.[key];
+
+  const originalTitle = pick("originalTitle") as string | undefined;
+
+  return {
+    title,
+    originalTitle: originalTitle !== title ? originalTitle : undefined,
+    localizedTitles: unique(
+      results.flatMap((meta) => meta.localizedTitles ?? [])
+    ).filter((localized) => localized !== title),
+    aliases: unique(results.flatMap((meta) => meta.aliases ?? [])),
+    year: pick("year") as number | undefined,
+    endYear: pick("endYear") as number | undefined,
+    runtime: pick("runtime") as number | undefined,
+    videos: results.find((meta) => meta.videos?.length)?.videos ?? [],
+  };
+};
+
+/** What streams.ts needs to filter releases, the rest is nice to have */
+const isCompleteMetadata = (meta: Metadata, type: MetadataType) =>
+  meta.year !== undefined &&
+  (type === "movie" || meta.videos.length > 0) &&
+  (!META_LANGUAGE || meta.localizedTitles.length > 0);
+
+/** Later providers are fallbacks, only asked when the earlier ones fall short */
+const lookupMetadata = async (imdbId: string, type: MetadataType) => {
+  const results: Partial<Metadata>[] = [];
+
+  for (const provider of providers) {
+    try {
+      const meta = await provider.getMetadata(imdbId, type, META_LANGUAGE);
+      if (meta) results.push(meta);
+    } catch (error) {
+      console.warn(
+        `Metadata: ${provider.name} failed for ${imdbId}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    const merged = mergeMetadata(results);
+    if (merged && isCompleteMetadata(merged, type)) return merged;
+  }
+
+  return mergeMetadata(results);
+};
+
+/** Cached, failed lookups are retried on the next request */
+export const getMetadata = async (imdbId: string, type: MetadataType) => {
+  const key = `${type}:${imdbId}`;
+
+  const cached = metaCache.get(key);
+  if (cached) return cached.value;
+
+  let pending = pendingLookups.get(key);
+
+  if (!pending) {
+    pending = lookupMetadata(imdbId, type)
+      .then((meta) => {
+        if (meta) metaCache.set(key, meta);
+        return meta;
+      })
+      .finally(() => pendingLookups.delete(key));
+
+    pendingLookups.set(key, pending);
+  }
+
+  return await pending;
+};
+
+/** Titles worth searching trackers for, the aliases are too many */
+export const getSearchTitles = (meta: Metadata) =>
+  unique([meta.title, meta.originalTitle, ...meta.localizedTitles]);
+
+[cinemetaProvider, imdbProvider].forEach(registerMetadataProvider);
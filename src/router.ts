@@ -1,8 +1,37 @@
-import { Router } from "express";
+import crypto from "crypto";
+import express, { Request, Response, Router } from "express";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
+import { Readable } from "stream";
 import { fileURLToPath } from "url";
-import { searchTorrents } from "./torrent/search.js";
+import { TorrentFile } from "webtorrent";
+import { manifest } from "./addon/manifest.js";
+import {
+  Profile,
+  ProfileConfig,
+  createProfile,
+  duplicateProfile,
+  getProfile,
+  getProfiles,
+  revokeProfile,
+  updateProfile,
+} from "./addon/profiles.js";
+import { SubtitleTimeoutError, getSubtitleVtt } from "./addon/subtitles.js";
+import {
+  evictTorrent,
+  getCacheUsage,
+  markStreamed,
+  pinTorrent,
+} from "./torrent/disk.js";
+import { getSourcesHealth } from "./torrent/health.js";
+import { getCachedInfoTime, getCachedTorrentInfo } from "./torrent/metadata.js";
+import { Readahead, openReadahead } from "./torrent/readahead.js";
+import {
+  clearSearchCache,
+  deleteSearchCacheEntry,
+  getSearchCacheEntries,
+  searchTorrents,
+} from "./torrent/search.js";
 import {
   getFile,
   getOrAddTorrent,
@@ -15,33 +44,80 @@ import {
   fileStreamClosed,
   getOpenFilePaths,
 } from "./torrent/webtorrent.js";
+import { Permission, login, logout, requirePermission } from "./utils/auth.js";
 import { getStreamingMimeType } from "./utils/file.js";
+import { isInfoHash } from "./utils/magnet.js";
+import {
+  ByteRange,
+  getContentRange,
+  getMultipartFooter,
+  getMultipartHeader,
+  getMultipartLength,
+  parseRangeHeader,
+} from "./utils/range.js";
+import { getStreamUrl, verifyStreamToken } from "./utils/token.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 export const router = Router();
 
-router.get("/stats", (req, res) => {
+const canView = requirePermission(Permission.Stats);
+const canViewPage = requirePermission(Permission.Stats, { page: true });
+const canManage = requirePermission(Permission.Manage);
+const canSearch = requirePermission(Permission.Search);
+const canEditProfiles = requirePermission(Permission.Profiles);
+const canEditProfilesPage = requirePermission(Permission.Profiles, {
+  page: true,
+});
+
+const sendPage = (res: Response, fileName: string) => {
   try {
-    // Runtime: this will resolve to dist/stats.html next to router.js
-    const statsPath = join(__dirname, "stats.html");
-    const html = readFileSync(statsPath, "utf-8");
+    // Runtime: this will resolve to dist/<fileName> next to router.js
+    const pagePath = join(__dirname, fileName);
+    const html = readFileSync(pagePath, "utf-8");
     res.set("Cache-Control", "no-store, no-cache, must-revalidate, private");
     res.type("html").send(html);
   } catch (err) {
-    console.error("Failed to load stats.html:", err);
-    res.status(500).send("Failed to load stats page");
+    console.error(`Failed to load ${fileName}:`, err);
+    res.status(500).send("Failed to load page");
   }
+};
+
+/** Only allow redirects within this server after login */
+const getSafeRedirect = (next: unknown) =>
+  typeof next === "string" && /^\/(?![/\\])/.test(next) ? next : "/stats";
+
+router.get("/login", (req, res) => {
+  sendPage(res, "login.html");
+});
+
+router.post("/login", express.urlencoded({ extended: false }), (req, res) => {
+  const next = getSafeRedirect(req.query.next || req.body?.next);
+
+  if (!login(req, res)) {
+    return res.redirect(`/login?error=1&next=${encodeURIComponent(next)}`);
+  }
+
+  res.redirect(next);
+});
+
+router.post("/logout", (req, res) => {
+  logout(res);
+  res.redirect("/login");
+});
+
+router.get("/stats", canViewPage, (req, res) => {
+  sendPage(res, "stats.html");
 });
 
 /** JSON stats for UI */
-router.get("/api/stats", (req, res) => {
+router.get("/api/stats", canView, (req, res) => {
   res.json(getStats());
 });
 
 /** Delete torrent */
-router.delete("/api/torrents/:infoHash", async (req, res) => {
+router.delete("/api/torrents/:infoHash", canManage, async (req, res) => {
   try {
     const ok = await removeTorrent(req.params.infoHash);
     res.status(ok ? 200 : 404).json({ ok });
@@ -51,75 +127,417 @@ router.delete("/api/torrents/:infoHash", async (req, res) => {
   }
 });
 
-/** Existing endpoints */
-router.get("/torrents/:query", async (req, res) => {
+/** Last search outcome and failure counts per source */
+router.get("/api/sources/health", canView, (req, res) => {
+  res.json(getSourcesHealth());
+});
+
+/** Search cache */
+router.get("/api/cache/search", canView, (req, res) => {
+  res.json(getSearchCacheEntries());
+});
+
+router.delete("/api/cache/search", canManage, (req, res) => {
+  res.json({ ok: true, removed: clearSearchCache() });
+});
+
+router.delete("/api/cache/search/:id", canManage, (req, res) => {
+  const ok = deleteSearchCacheEntry(req.params.id);
+  res.status(ok ? 200 : 404).json({ ok });
+});
+
+/** Downloaded torrents on disk, evicted by disk.ts unless pinned */
+router.get("/api/cache/torrents", canView, async (req, res) => {
+  res.json(await getCacheUsage());
+});
+
+router.delete("/api/cache/torrents/:infoHash", canManage, async (req, res) => {
+  const ok = await evictTorrent(req.params.infoHash);
+  res.status(ok ? 200 : 404).json({ ok });
+});
+
+router.put("/api/cache/torrents/:infoHash/pin", canManage, (req, res) => {
+  if (!isInfoHash(req.params.infoHash))
+    return res.status(400).json({ ok: false, error: "Invalid info hash" });
+  pinTorrent(req.params.infoHash, true);
+  res.json({ ok: true });
+});
+
+router.delete("/api/cache/torrents/:infoHash/pin", canManage, (req, res) => {
+  if (!isInfoHash(req.params.infoHash))
+    return res.status(400).json({ ok: false, error: "Invalid info hash" });
+  pinTorrent(req.params.infoHash, false);
+  res.json({ ok: true });
+});
+
+/** Addon config profiles, installed by id so the URL carries no credentials */
+const passwordKeys = (manifest.config || [])
+  .filter((field) => field.type === "password")
+  .map((field) => field.key);
+
+/** Only the string fields of the manifest config are kept */
+const getConfigBody = (body: unknown): ProfileConfig | undefined => {
+  if (!body || typeof body !== "object" || !("config" in body))
+    return undefined;
+  const { config } = body;
+  if (!config || typeof config !== "object") return undefined;
+
+  const fields: Record<string, unknown> = { ...config };
+  return Object.fromEntries(
+    (manifest.config || []).map(({ key }) => {
+      const value = fields[key];
+      return [key, typeof value === "string" ? value : undefined];
+    })
+  );
+};
+
+/**
+ * Passwords never leave the server. On updates a missing password keeps the
+ * stored one and an empty one clears it.
+ */
+const toProfileResponse = (req: Request, profile: Profile) => {
+  const manifestUrl = `${req.get("host")}/${profile.id}/manifest.json`;
+  return {
+    id: profile.id,
+    name: profile.name,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+    manifestUrl: `${req.protocol}://${manifestUrl}`,
+    installUrl: `stremio://${manifestUrl}`,
+    config: Object.fromEntries(
+      Object.entries(profile.config).filter(
+        ([key]) => !passwordKeys.includes(key)
+      )
+    ),
+    secrets: passwordKeys.filter((key) => profile.config[key]),
+  };
+};
+
+router.get("/profiles", canEditProfilesPage, (req, res) => {
+  sendPage(res, "profiles.html");
+});
+
+router.get("/api/profiles/fields", canEditProfiles, (req, res) => {
+  res.json(manifest.config || []);
+});
+
+router.get("/api/profiles", canEditProfiles, async (req, res) => {
+  const profiles = await getProfiles();
+  res.json(profiles.map((profile) => toProfileResponse(req, profile)));
+});
+
+router.get("/api/profiles/:id", canEditProfiles, async (req, res) => {
+  const profile = await getProfile(req.params.id);
+  if (!profile) return res.status(404).json({ ok: false });
+  res.json(toProfileResponse(req, profile));
+});
+
+router.post("/api/profiles", canEditProfiles, async (req, res) => {
+  const name = req.body?.name;
+  const config = getConfigBody(req.body);
+  if (typeof name !== "string" || !name.trim() || !config) {
+    return res.status(400).json({ ok: false, error: "Name and config needed" });
+  }
+
+  const profile = await createProfile(name.trim(), config);
+  res.json(toProfileResponse(req, profile));
+});
+
+router.put("/api/profiles/:id", canEditProfiles, async (req, res) => {
+  const existing = await getProfile(req.params.id);
+  if (!existing) return res.status(404).json({ ok: false });
+
+  const name = req.body?.name;
+  const config = getConfigBody(req.body);
+  if (config) {
+    for (const key of passwordKeys) {
+      if (config[key] === undefined) config[key] = existing.config[key];
+      else if (!config[key]) config[key] = undefined;
+    }
+  }
+
+  const profile = await updateProfile(existing.id, {
+    name: typeof name === "string" && name.trim() ? name.trim() : undefined,
+    config,
+  });
+  if (!profile) return res.status(404).json({ ok: false });
+  res.json(toProfileResponse(req, profile));
+});
+
+router.post(
+  "/api/profiles/:id/duplicate",
+  canEditProfiles,
+  async (req, res) => {
+    const name = req.body?.name;
+    const profile = await duplicateProfile(
+      req.params.id,
+      typeof name === "string" ? name.trim() : undefined
+    );
+    if (!profile) return res.status(404).json({ ok: false });
+    res.json(toProfileResponse(req, profile));
+  }
+);
+
+router.delete("/api/profiles/:id", canEditProfiles, async (req, res) => {
+  const ok = await revokeProfile(req.params.id);
+  res.status(ok ? 200 : 404).json({ ok });
+});
+
+/** Search endpoints, /stream links stay public so Stremio can play them */
+router.get("/torrents/:query", canSearch, async (req, res) => {
   const { query } = req.params;
   const torrents = await searchTorrents(query);
   res.json(torrents);
 });
 
-router.post("/torrents/:query", async (req, res) => {
+router.post("/torrents/:query", canSearch, async (req, res) => {
   const { query } = req.params;
   const options = req.body;
   const torrents = await searchTorrents(query, options);
   res.json(torrents);
 });
 
-router.get("/torrent/:torrentUri", async (req, res) => {
+router.get("/torrent/:torrentUri", canSearch, async (req, res) => {
   const { torrentUri } = req.params;
   const torrent = await getTorrentInfo(torrentUri);
   if (!torrent) return res.status(500).send("Failed to get torrent");
 
-  torrent.files.forEach((file) => {
-    file.url = [
-      `${req.protocol}://${req.get("host")}`,
-      "stream",
-      encodeURIComponent(torrentUri),
-      encodeURIComponent(file.path),
-    ].join("/");
+  res.json({
+    ...torrent,
+    files: torrent.files.map((file, index) => ({
+      ...file,
+      url: getStreamUrl(req, torrent.infoHash, index, file.name),
+    })),
   });
+});
+
+/** Torrent subtitles converted to WebVTT, public like /stream links */
+router.get("/subtitle/:token/:fileName", async (req, res) => {
+  const subtitle = verifyStreamToken(req.params.token);
+  if (!subtitle) return res.status(403).send("Invalid subtitle link");
 
-  res.json(torrent);
+  try {
+    const vtt = await getSubtitleVtt(subtitle.infoHash, subtitle.fileIndex);
+    if (vtt === undefined) return res.status(404).send("Subtitle not found");
+
+    res
+      .set("Access-Control-Allow-Origin", "*")
+      .type("text/vtt; charset=utf-8")
+      .send(vtt);
+  } catch (error) {
+    if (error instanceof SubtitleTimeoutError) {
+      console.warn(`Subtitle timeout: ${error.message}`);
+      return res.status(504).send("Subtitle download timed out");
+    }
+
+    console.error("Subtitle error:", error);
+    res.status(500).send("Failed to read subtitle");
+  }
 });
 
-// ✅ Helper: Prioritize pieces for a byte range (fixes buffering issues)
-function prioritizeRange(
-  torrent: any,
-  file: any,
-  startByte: number,
-  endByte: number
+interface StreamResponse {
+  status: number;
+  headers: Record<string, string | number>;
+  /** Parts of the file to send, none for 304 and 416 */
+  ranges: ByteRange[];
+  /** Set for multipart/byteranges responses */
+  boundary?: string;
+}
+
+/** HTTP dates only have seconds */
+const isModifiedSince = (lastModified: Date, date: Date) =>
+  Math.floor(lastModified.getTime() / 1000) > Math.floor(date.getTime() / 1000);
+
+/**
+ * Status and headers of a stream response, decided from the cached torrent
+ * info alone so HEAD and conditional requests don't add the torrent. The
+ * contents of an info hash never change, so it's a strong ETag.
+ */
+const getStreamResponse = (
+  req: Request,
+  stream: { infoHash: string; fileIndex: number },
+  file: { name: string; size: number },
+  lastModified?: Date
+): StreamResponse => {
+  const { size } = file;
+  const contentType = getStreamingMimeType(file.name);
+  const etag = `"${stream.infoHash}-${stream.fileIndex}"`;
+
+  const headers: Record<string, string | number> = {
+    "Accept-Ranges": "bytes",
+    "Content-Type": contentType,
+    "Cache-Control": "no-cache",
+    ETag: etag,
+    ...(lastModified ? { "Last-Modified": lastModified.toUTCString() } : {}),
+  };
+
+  const ifNoneMatch = req.get("If-None-Match");
+  const ifModifiedSince = req.get("If-Modified-Since");
+
+  if (
+    ifNoneMatch
+      ? ifNoneMatch === "*" ||
+        ifNoneMatch.split(",").some((tag) => tag.trim() === etag)
+      : ifModifiedSince &&
+        lastModified &&
+        !isModifiedSince(lastModified, new Date(ifModifiedSince))
+  )
+    return { status: 304, headers, ranges: [] };
+
+  // A stale If-Range gets the whole file instead of the requested parts
+  const ifRange = req.get("If-Range");
+  const isRangeValid =
+    !ifRange ||
+    (ifRange.startsWith('"')
+      ? ifRange === etag
+      : !!lastModified && !isModifiedSince(lastModified, new Date(ifRange)));
+
+  const range = req.get("Range");
+  const ranges =
+    range && isRangeValid ? parseRangeHeader(range, size) : undefined;
+
+  if (!ranges)
+    return {
+      status: 200,
+      headers: { ...headers, "Content-Length": size },
+      ranges: size ? [{ start: 0, end: size - 1 }] : [],
+    };
+
+  if (!ranges.length)
+    return {
+      status: 416,
+      headers: { ...headers, "Content-Range": `bytes */${size}` },
+      ranges: [],
+    };
+
+  if (ranges.length === 1)
+    return {
+      status: 206,
+      headers: {
+        ...headers,
+        "Content-Range": getContentRange(ranges[0], size),
+        "Content-Length": ranges[0].end - ranges[0].start + 1,
+      },
+      ranges,
+    };
+
+  const boundary = crypto.randomBytes(12).toString("hex");
+
+  return {
+    status: 206,
+    headers: {
+      ...headers,
+      "Content-Type": `multipart/byteranges; boundary=${boundary}`,
+      "Content-Length": getMultipartLength(boundary, ranges, size, contentType),
+    },
+    ranges,
+    boundary,
+  };
+};
+
+/**
+ * The parts of a multipart/byteranges body, read one after the other. The
+ * readahead follows the position in the file, not in the body.
+ */
+async function* readMultipart(
+  file: TorrentFile,
+  ranges: ByteRange[],
+  boundary: string,
+  readahead: Readahead
 ) {
-  try {
-    const pieceLength = torrent.pieceLength;
-    if (!pieceLength) return;
+  const contentType = getStreamingMimeType(file.name);
 
-    const fileStartPiece = file._startPiece ?? 0;
-    const startPiece = fileStartPiece + Math.floor(startByte / pieceLength);
-    const endPiece = fileStartPiece + Math.floor(endByte / pieceLength);
+  for (const range of ranges) {
+    yield getMultipartHeader(boundary, range, file.length, contentType);
 
-    if (typeof torrent.critical === "function") {
-      torrent.critical(startPiece, endPiece);
+    let position = range.start;
+    readahead.update(position);
+    for await (const chunk of file.createReadStream(range)) {
+      yield chunk;
+      position += chunk.length;
+      readahead.update(position);
     }
-  } catch (err) {
-    console.warn("Failed to prioritize range:", err);
+
+    yield "\r\n";
   }
+
+  yield getMultipartFooter(boundary);
 }
 
+const getStreamFile = async (token: string) => {
+  const stream = verifyStreamToken(token);
+  if (!stream) return undefined;
+
+  const info = await getCachedTorrentInfo(stream.infoHash);
+  const file = info?.files[stream.fileIndex];
+
+  return {
+    stream,
+    file,
+    lastModified: await getCachedInfoTime(stream.infoHash),
+  };
+};
+
+/** Headers only, without adding the torrent or reading anything */
+router.head("/stream/:token/:fileName", async (req, res) => {
+  const streamFile = await getStreamFile(req.params.token);
+  if (!streamFile) return res.status(403).end();
+
+  const { stream, file, lastModified } = streamFile;
+  if (!file) return res.status(404).end();
+
+  const { status, headers } = getStreamResponse(
+    req,
+    stream,
+    file,
+    lastModified
+  );
+
+  res.writeHead(status, headers);
+  res.end();
+});
+
 /** Stream endpoint (Range + piece selection + safe cleanup) */
-router.get("/stream/:torrentUri/:filePath", async (req, res) => {
-  const { torrentUri, filePath } = req.params;
-  const torrent = await getOrAddTorrent(torrentUri);
+router.get("/stream/:token/:fileName", async (req, res) => {
+  const streamFile = await getStreamFile(req.params.token);
+  if (!streamFile) return res.status(403).send("Invalid stream link");
+
+  const { stream, lastModified } = streamFile;
+
+  // Conditional and unsatisfiable requests are answered before adding it
+  const cachedResponse =
+    streamFile.file &&
+    getStreamResponse(req, stream, streamFile.file, lastModified);
+
+  if (cachedResponse?.status === 304 || cachedResponse?.status === 416) {
+    res.writeHead(cachedResponse.status, cachedResponse.headers);
+    return res.end();
+  }
+
+  const torrent = await getOrAddTorrent(stream.infoHash);
   if (!torrent) return res.status(500).send("Failed to add torrent");
 
-  const file = getFile(torrent, filePath);
+  const file = getFile(torrent, stream.fileIndex);
   if (!file) return res.status(404).send("File not found");
 
-  const mime = getStreamingMimeType(file.name);
-  const range = req.headers.range;
+  const { status, headers, ranges, boundary } =
+    cachedResponse ||
+    getStreamResponse(
+      req,
+      stream,
+      { name: file.name, size: file.length },
+      lastModified
+    );
+
+  if (!ranges.length) {
+    res.writeHead(status, headers);
+    return res.end();
+  }
+
   const NO_DATA_TIMEOUT_MS = 30000;
   const hash = torrent.infoHash;
 
-  const pipeWithCleanup = (readable: any) => {
+  const pipeWithCleanup = (readable: any, readahead: Readahead) => {
     let noDataTimeout: NodeJS.Timeout | undefined = setTimeout(() => {
       console.warn(`Stream timeout: no data for ${NO_DATA_TIMEOUT_MS}ms`);
       res.destroy();
@@ -129,15 +547,22 @@ router.get("/stream/:torrentUri/:filePath", async (req, res) => {
       if (noDataTimeout) clearTimeout(noDataTimeout);
       noDataTimeout = undefined;
       readable.destroy();
+      readahead.close();
       fileStreamClosed(hash, file.path);
       streamClosed(hash, file.name);
     };
 
     res.on("close", cleanup);
 
-    readable.on("data", () => {
+    // The window follows the read position, so playback never outruns it.
+    // Multipart bodies move it themselves, they skip between ranges.
+    let position = ranges[0].start;
+    readable.on("data", (chunk: Buffer) => {
       if (noDataTimeout) clearTimeout(noDataTimeout);
       noDataTimeout = undefined;
+      if (boundary) return;
+      position += chunk.length;
+      readahead.update(position);
     });
 
     readable.on("error", (err: any) => {
@@ -166,76 +591,21 @@ router.get("/stream/:torrentUri/:filePath", async (req, res) => {
     } catch {}
   }
 
-  if (!range) {
-    prioritizeRange(
-      torrent,
-      file,
-      0,
-      Math.min(file.length - 1, 10 * 1024 * 1024)
-    );
-
-    res.writeHead(200, {
-      "Content-Length": file.length,
-      "Content-Type": mime,
-      "Accept-Ranges": "bytes",
-      "Cache-Control": "no-cache",
-    });
+  const [first] = ranges;
+  const readahead = openReadahead(torrent, file, first.start);
 
-    fileStreamOpened(hash, file.path);
-    streamOpened(hash, file.name);
-    try {
-      const readable = file.createReadStream();
-      pipeWithCleanup(readable);
-    } catch {
-      fileStreamClosed(hash, file.path);
-      streamClosed(hash, file.name);
-      res.status(500).end();
-    }
-    return;
-  }
-
-  const m = /^bytes=(\d+)-(\d*)$/.exec(range);
-  if (!m) {
-    res.writeHead(416, { "Content-Range": `bytes */${file.length}` });
-    return res.end();
-  }
-
-  const start = Number(m[1]);
-  const end = m[2] ? Number(m[2]) : file.length - 1;
-
-  if (
-    !Number.isFinite(start) ||
-    !Number.isFinite(end) ||
-    start > end ||
-    start >= file.length
-  ) {
-    res.writeHead(416, { "Content-Range": `bytes */${file.length}` });
-    return res.end();
-  }
-
-  const safeEnd = Math.min(end, file.length - 1);
-
-  prioritizeRange(
-    torrent,
-    file,
-    start,
-    Math.min(safeEnd, start + 10 * 1024 * 1024)
-  );
-
-  res.writeHead(206, {
-    "Content-Range": `bytes ${start}-${safeEnd}/${file.length}`,
-    "Accept-Ranges": "bytes",
-    "Content-Length": safeEnd - start + 1,
-    "Content-Type": mime,
-    "Cache-Control": "no-cache",
-  });
+  res.writeHead(status, headers);
 
   fileStreamOpened(hash, file.path);
   streamOpened(hash, file.name);
+  markStreamed(hash);
   try {
-    const readable = file.createReadStream({ start, end: safeEnd });
-    pipeWithCleanup(readable);
+    const readable = boundary
+      ? Readable.from(readMultipart(file, ranges, boundary, readahead))
+      : file.createReadStream(first);
+    pipeWithCleanup(readable, readahead);
   } catch {
+    readahead.close();
     fileStreamClosed(hash, file.path);
     streamClosed(hash, file.name);
     res.status(500).end();
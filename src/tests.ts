@@ -0,0 +1,5 @@
+// Entry of `npm test`, esrun bundles one file so the test files are imported
+import "./metadata/matching.test.js";
+import "./utils/range.test.js";
+import "./utils/release.test.js";
+import "./utils/shows.test.js";
@@ -0,0 +1,166 @@
+import fs from "fs-extra";
+import path from "path";
+import { DATA_DIR, createJsonWriter } from "../utils/data.js";
+import {
+  DOWNLOAD_DIR,
+  deleteDownloadedTorrent,
+  getDownloadedTorrents,
+  getStats,
+} from "./webtorrent.js";
+
+/** Bytes DOWNLOAD_DIR may use, unlimited if unset */
+const CACHE_MAX_SIZE = Number(process.env.CACHE_MAX_SIZE) || 0;
+
+/**
+ * Bytes to leave free on the disk of DOWNLOAD_DIR, 1 GB by default if
+ * CACHE_MAX_SIZE is set. 0 turns it off.
+ */
+const CACHE_MIN_FREE_SPACE = process.env.CACHE_MIN_FREE_SPACE
+  ? Number(process.env.CACHE_MIN_FREE_SPACE) || 0
+  : CACHE_MAX_SIZE
+    ? 1024 * 1024 * 1024
+    : 0;
+
+const CACHE_CHECK_INTERVAL =
+  Number(process.env.CACHE_CHECK_INTERVAL) || 60 * 1000;
+
+const CACHE_STATE_PATH = path.join(DATA_DIR, "disk-cache.json");
+
+interface CachedTorrentState {
+  lastStreamed?: number;
+  pinned?: boolean;
+}
+
+export interface CachedTorrent {
+  infoHash: string;
+  name: string;
+  size: number;
+  /** Bytes on disk */
+  downloaded: number;
+  lastStreamed?: number;
+  pinned: boolean;
+  active: boolean;
+  openStreams: number;
+}
+
+fs.ensureDirSync(DATA_DIR);
+
+const states: Record<string, CachedTorrentState> = fs.existsSync(
+  CACHE_STATE_PATH
+)
+  ? fs.readJsonSync(CACHE_STATE_PATH, { throws: false }) || {}
+  : {};
+
+const statesWriter = createJsonWriter(CACHE_STATE_PATH, () => states);
+
+const saveStates = statesWriter.save;
+
+/** Writes pending pins and stream times, for shutdown */
+export const flushCacheStates = statesWriter.flush;
+
+const updateState = (infoHash: string, update: CachedTorrentState) => {
+  states[infoHash] = { ...states[infoHash], ...update };
+  saveStates();
+};
+
+/** Called when a stream opens, eviction goes by the last one */
+export const markStreamed = (infoHash: string) =>
+  updateState(infoHash, { lastStreamed: Date.now() });
+
+export const getCachedTorrents = async (): Promise<CachedTorrent[]> => {
+  const active = new Map(
+    getStats().activeTorrents.map((torrent) => [torrent.infoHash, torrent])
+  );
+
+  return (await getDownloadedTorrents()).map(({ info, downloaded }) => ({
+    infoHash: info.infoHash,
+    name: info.name,
+    size: info.size,
+    downloaded,
+    lastStreamed: states[info.infoHash]?.lastStreamed,
+    pinned: !!states[info.infoHash]?.pinned,
+    active: active.has(info.infoHash),
+    openStreams: active.get(info.infoHash)?.openStreams || 0,
+  }));
+};
+
+const getFreeSpace = async () => {
+  try {
+    const stats = await fs.promises.statfs(DOWNLOAD_DIR);
+    return stats.bavail * stats.bsize;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getCacheUsage = async () => {
+  const torrents = await getCachedTorrents();
+
+  return {
+    used: torrents.reduce((sum, torrent) => sum + torrent.downloaded, 0),
+    maxSize: CACHE_MAX_SIZE || undefined,
+    freeSpace: await getFreeSpace(),
+    minFreeSpace: CACHE_MIN_FREE_SPACE || undefined,
+    torrents,
+  };
+};
+
+export const pinTorrent = (infoHash: string, pinned: boolean) =>
+  updateState(infoHash, { pinned });
+
+export const evictTorrent = async (infoHash: string) => {
+  const torrent = (await getDownloadedTorrents()).find(
+    (torrent) => torrent.info.infoHash === infoHash
+  );
+  if (!torrent) return false;
+
+  await deleteDownloadedTorrent(torrent.info);
+  delete states[infoHash];
+  saveStates();
+  console.log(`Evicted torrent: ${torrent.info.name}`);
+  return true;
+};
+
+/**
+ * Evicts the least recently streamed torrents until the cache fits in
+ * CACHE_MAX_SIZE and the disk has CACHE_MIN_FREE_SPACE left, if they're set.
+ * Pinned torrents and ones being streamed are never evicted.
+ */
+export const enforceCacheLimits = async () => {
+  const { used, freeSpace, torrents } = await getCacheUsage();
+
+  let overQuota = CACHE_MAX_SIZE ? used - CACHE_MAX_SIZE : 0;
+  let missingSpace =
+    !CACHE_MIN_FREE_SPACE || freeSpace === undefined
+      ? 0
+      : CACHE_MIN_FREE_SPACE - freeSpace;
+
+  const candidates = torrents
+    .filter((torrent) => !torrent.pinned && !torrent.openStreams)
+    .sort((a, b) => (a.lastStreamed || 0) - (b.lastStreamed || 0));
+
+  for (const torrent of candidates) {
+    if (overQuota <= 0 && missingSpace <= 0) break;
+
+    await evictTorrent(torrent.infoHash);
+    overQuota -= torrent.downloaded;
+    missingSpace -= torrent.downloaded;
+  }
+};
+
+let checking = false;
+
+const checkCache = async () => {
+  if (checking) return;
+  checking = true;
+  try {
+    await enforceCacheLimits();
+  } catch (error) {
+    console.error("Cache check failed:", error);
+  } finally {
+    checking = false;
+  }
+};
+
+setInterval(checkCache, CACHE_CHECK_INTERVAL).unref();
+checkCache();
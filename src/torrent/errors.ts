@@ -0,0 +1,33 @@
+import { isAxiosError } from "axios";
+
+export type SourceErrorKind = "auth" | "timeout" | "parse" | "network";
+
+export class SourceSearchError extends Error {
+  kind: SourceErrorKind;
+
+  constructor(kind: SourceErrorKind, message: string) {
+    super(message);
+    this.name = "SourceSearchError";
+    this.kind = kind;
+  }
+}
+
+export const getSourceErrorKind = (error: unknown): SourceErrorKind => {
+  if (error instanceof SourceSearchError) return error.kind;
+
+  if (isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === 401 || status === 403) return "auth";
+    if (
+      error.code === "ECONNABORTED" ||
+      error.code === "ETIMEDOUT" ||
+      error.code === "ERR_CANCELED"
+    )
+      return "timeout";
+    return "network";
+  }
+
+  if (error instanceof Error && "code" in error) return "network";
+
+  return "parse";
+};
@@ -1,17 +1,18 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
 import { getTorrentsByImdbId } from "eztv-crawler";
-import { TorrentSearchResult } from "./search.js";
+import { SourceProvider, SourceSearchResponse } from "./providers.js";
 import { isImdbId } from "../utils/imdb.js";
 
 export const searchEztv = async (
-  searchQuery: string
-): Promise<TorrentSearchResult[]> => {
-  try {
-    if (isImdbId(searchQuery)) {
-      const res = await getTorrentsByImdbId(searchQuery);
+  searchQuery: string,
+  signal?: AbortSignal
+): Promise<SourceSearchResponse> => {
+  if (isImdbId(searchQuery)) {
+    const res = await getTorrentsByImdbId(searchQuery);
 
-      return res.torrents.map((torrent) => ({
+    return {
+      results: (res.torrents ?? []).map((torrent) => ({
         name: torrent.title.replace("EZTV", "").trim(),
         tracker: "EZTV",
         category: parseCategory(torrent.title),
@@ -20,20 +21,24 @@ export const searchEztv = async (
         peers: torrent.peers,
         torrent: torrent.torrent_url,
         magnet: torrent.magnet_url,
-      }));
-    } else {
-      const formData = new FormData();
-      formData.append("layout", "def_wlinks");
+      })),
+      pages: 1,
+    };
+  } else {
+    const formData = new FormData();
+    formData.append("layout", "def_wlinks");
 
-      const eztvPage = await axios.post(
-        `https://eztv.wf/search/${encodeURIComponent(searchQuery)}`,
-        formData
-      );
-      const $ = cheerio.load(eztvPage.data);
+    const eztvPage = await axios.post(
+      `https://eztv.wf/search/${encodeURIComponent(searchQuery)}`,
+      formData,
+      { signal }
+    );
+    const $ = cheerio.load(eztvPage.data);
 
-      const results = $('[name="hover"]').toArray();
+    const results = $('[name="hover"]').toArray();
 
-      return results.map((res) => {
+    return {
+      results: results.map((res) => {
         const title = $(res).find("td:nth-child(2)").text()?.replace(/\n/g, "");
         const size = $(res).find("td:nth-child(4)").text();
         const seeds = $(res).find("td:nth-child(6)").text();
@@ -58,13 +63,20 @@ export const searchEztv = async (
           torrent,
           magnet,
         };
-      });
-    }
-  } catch (error) {
-    return [];
+      }),
+      pages: 1,
+    };
   }
 };
 
+export const eztvProvider: SourceProvider = {
+  id: "eztv",
+  name: "EZTV",
+  categories: ["show"],
+  credentials: [],
+  search: (query, categories, credentials, signal) => searchEztv(query, signal),
+};
+
 const parseCategory = (title: string) => {
   let quality = "SD";
   if (title.includes("720p")) quality = "720p";
@@ -0,0 +1,74 @@
+import { SourceErrorKind } from "./errors.js";
+import { getSourceProviders } from "./providers.js";
+import { SourceSearchOutcome } from "./search.js";
+
+interface SourceHealth {
+  searches: number;
+  failures: number;
+  consecutiveFailures: number;
+  totalDuration: number;
+  lastOutcome?: Omit<SourceSearchOutcome, "results"> & {
+    results: number;
+    at: number;
+  };
+  lastSuccessAt?: number;
+  lastError?: { kind: SourceErrorKind; message: string; at: number };
+}
+
+const health = new Map<string, SourceHealth>();
+
+export const recordSourceOutcome = (outcome: SourceSearchOutcome) => {
+  const entry = health.get(outcome.source) || {
+    searches: 0,
+    failures: 0,
+    consecutiveFailures: 0,
+    totalDuration: 0,
+  };
+
+  const at = Date.now();
+
+  entry.searches++;
+  entry.totalDuration += outcome.duration;
+  entry.lastOutcome = { ...outcome, results: outcome.results.length, at };
+
+  if (outcome.error) {
+    entry.failures++;
+    entry.consecutiveFailures++;
+    entry.lastError = { ...outcome.error, at };
+    console.warn(
+      `Search: ${outcome.source} failed (${outcome.error.kind}): ${outcome.error.message}`
+    );
+  } else {
+    entry.consecutiveFailures = 0;
+    entry.lastSuccessAt = at;
+  }
+
+  health.set(outcome.source, entry);
+};
+
+export const getSourcesHealth = () =>
+  getSourceProviders().map((provider) => {
+    const entry = health.get(provider.id);
+
+    const status = !entry
+      ? "unknown"
+      : entry.consecutiveFailures === 0
+        ? "ok"
+        : entry.consecutiveFailures < 3
+          ? "degraded"
+          : "failing";
+
+    return {
+      source: provider.id,
+      name: provider.name,
+      status,
+      searches: entry?.searches || 0,
+      failures: entry?.failures || 0,
+      averageDuration: entry?.searches
+        ? Math.round(entry.totalDuration / entry.searches)
+        : 0,
+      lastOutcome: entry?.lastOutcome,
+      lastSuccessAt: entry?.lastSuccessAt,
+      lastError: entry?.lastError,
+    };
+  });
@@ -1,8 +1,10 @@
 import axios from "axios";
 import { wrapper } from "axios-cookiejar-support";
 import * as cheerio from "cheerio";
-import { CookieJar } from "tough-cookie";
+import { SourceSearchError } from "./errors.js";
+import { SourceProvider, SourceSearchResponse } from "./providers.js";
 import { TorrentSearchResult } from "./search.js";
+import { getSessionJar, getSessionKey } from "./sessions.js";
 
 const INSANE_USER = process.env.INSANE_USER;
 const INSANE_PASSWORD = process.env.INSANE_PASSWORD;
@@ -29,93 +31,145 @@ export const searchInsane = async (
   searchQuery: string,
   categories: InsaneCategory[],
   insaneUser?: string,
-  insanePassword?: string
-): Promise<TorrentSearchResult[]> => {
-  try {
-    const user = insaneUser || INSANE_USER;
-    const password = insanePassword || INSANE_PASSWORD;
+  insanePassword?: string,
+  signal?: AbortSignal
+): Promise<SourceSearchResponse> => {
+  const user = insaneUser || INSANE_USER;
+  const password = insanePassword || INSANE_PASSWORD;
 
-    if (!user || !password) return [];
+  if (!user || !password) return { results: [], pages: 0 };
 
-    const jar = new CookieJar();
+  const session = getSessionKey("https://newinsane.info", user, password);
+  const jar = getSessionJar(session);
 
-    const client = wrapper(
+  const client = wrapper(
+    // @ts-ignore
+    axios.create({
       // @ts-ignore
-      axios.create({
-        // @ts-ignore
-        jar,
-        baseURL: "https://newinsane.info",
-        headers: { "User-Agent": USER_AGENT },
-      })
-    );
-
-    const formData = new FormData();
-    formData.append("username", user);
-    formData.append("password", password);
-    await client.post("/login.php", formData);
-
-    const torrents: TorrentSearchResult[] = [];
-
-    let page = 0;
-
-    while (page <= 5) {
-      try {
-        let torrentsOnPage = 0;
-
-        let params = new URLSearchParams({
-          page: page.toString(),
-          search: searchQuery,
-          searchsort: "normal",
-          searchtype: "desc",
-          torart: "tor",
-        });
+      jar,
+      baseURL: "https://newinsane.info",
+      headers: { "User-Agent": USER_AGENT },
+    })
+  );
+
+  const formData = new FormData();
+  formData.append("username", user);
+  formData.append("password", password);
+  await client.post("/login.php", formData, { signal });
+
+  const torrents: TorrentSearchResult[] = [];
+
+  let page = 0;
+
+  while (page <= 5) {
+    try {
+      let torrentsOnPage = 0;
+
+      let params = new URLSearchParams({
+        page: page.toString(),
+        search: searchQuery,
+        searchsort: "normal",
+        searchtype: "desc",
+        torart: "tor",
+      });
+
+      for (const category of categories) {
+        params.append("cat[]", category.toString());
+      }
 
-        for (const category of categories) {
-          params.append("cat[]", category.toString());
-        }
-
-        const link = `/browse.php?${params.toString()}}`;
-        const torrentsPage = await client.get(link);
-        const $ = cheerio.load(torrentsPage.data);
-
-        for (const el of $("tr.torrentrow")) {
-          torrentsOnPage++;
-
-          const tracker = "iNSANE";
-          const name = $(el).find("a.torrentname").attr("title");
-          const category = parseCategory(
-            $(el).find("td.caticon > a > img").attr("title")
-          );
-          const size = parseSize($(el).find("td.size").text());
-          const seeds = Number($(el).find("td.data > a:nth-of-type(1)").text());
-          const peers = Number($(el).find("td.data > a:nth-of-type(2)").text());
-          const torrent = $(el).find("a.downloadicon").attr("href");
-
-          if (!name || !torrent) continue;
-
-          torrents.push({
-            name,
-            tracker,
-            category,
-            size,
-            seeds,
-            peers,
-            torrent,
-          });
-        }
-
-        if (torrentsOnPage < 25) break;
-
-        page++;
-      } catch {
-        continue;
+      const link = `/browse.php?${params.toString()}}`;
+      const torrentsPage = await client.get(link, { signal });
+      const $ = cheerio.load(torrentsPage.data);
+
+      if ($("input[name=password]").length)
+        throw new SourceSearchError("auth", "iNSANE login failed");
+
+      for (const el of $("tr.torrentrow")) {
+        torrentsOnPage++;
+
+        const tracker = "iNSANE";
+        const name = $(el).find("a.torrentname").attr("title");
+        const category = parseCategory(
+          $(el).find("td.caticon > a > img").attr("title")
+        );
+        const size = parseSize($(el).find("td.size").text());
+        const seeds = Number($(el).find("td.data > a:nth-of-type(1)").text());
+        const peers = Number($(el).find("td.data > a:nth-of-type(2)").text());
+        const torrent = $(el).find("a.downloadicon").attr("href");
+
+        if (!name || !torrent) continue;
+
+        torrents.push({
+          name,
+          tracker,
+          category,
+          size,
+          seeds,
+          peers,
+          torrent,
+          session,
+        });
       }
-    }
 
-    return torrents;
-  } catch (error) {
-    return [];
+      if (torrentsOnPage > 0 && torrents.length === 0)
+        throw new SourceSearchError(
+          "parse",
+          "Unrecognized iNSANE results page"
+        );
+
+      page++;
+
+      if (torrentsOnPage < 25) break;
+    } catch (error) {
+      // Keep what the previous pages returned
+      if (page === 0) throw error;
+      break;
+    }
   }
+
+  return { results: torrents, pages: page };
+};
+
+export const insaneProvider: SourceProvider = {
+  id: "insane",
+  name: "iNSANE",
+  categories: ["movie", "show"],
+  credentials: [
+    { name: "user", key: "insaneUser", title: "iNSANE username", type: "text" },
+    {
+      name: "password",
+      key: "insanePassword",
+      title: "iNSANE password",
+      type: "password",
+    },
+  ],
+  search: (query, categories, { user, password }, signal) => {
+    const insaneCategories: InsaneCategory[] = [];
+
+    if (categories.includes("movie")) {
+      insaneCategories.push(
+        InsaneCategory.Film_Hun_SD,
+        InsaneCategory.Film_Hun_HD,
+        InsaneCategory.Film_Hun_UHD,
+        InsaneCategory.Film_Eng_SD,
+        InsaneCategory.Film_Eng_HD,
+        InsaneCategory.Film_Eng_UHD
+      );
+    }
+
+    if (categories.includes("show")) {
+      insaneCategories.push(
+        InsaneCategory.Sorozat_Hun,
+        InsaneCategory.Sorozat_Hun_HD,
+        InsaneCategory.Sorozat_Hun_UHD,
+        InsaneCategory.Sorozat_Eng,
+        InsaneCategory.Sorozat_Eng_HD,
+        InsaneCategory.Sorozat_Eng_UHD
+      );
+    }
+
+    return searchInsane(query, insaneCategories, user, password, signal);
+  },
 };
 
 const parseCategory = (category: string | undefined) => {
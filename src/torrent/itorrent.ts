@@ -1,5 +1,7 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
+import { SourceSearchError } from "./errors.js";
+import { SourceProvider, SourceSearchResponse } from "./providers.js";
 import { TorrentSearchResult } from "./search.js";
 
 export enum ItorrentCategory {
@@ -16,10 +18,12 @@ export enum ItorrentQuality {
 export const searchItorrent = async (
   searchQuery: string,
   categories: ItorrentCategory[],
-  qualities: ItorrentQuality[]
-): Promise<TorrentSearchResult[]> => {
+  qualities: ItorrentQuality[],
+  signal?: AbortSignal
+): Promise<SourceSearchResponse> => {
   const torrents: TorrentSearchResult[] = [];
   const quality = qualities.join(",");
+  let pages = 0;
 
   await Promise.all(
     categories.map(async (category) => {
@@ -30,9 +34,10 @@ export const searchItorrent = async (
           page++;
 
           let torrentsOnPage = 0;
+          let parsedOnPage = 0;
 
           const link = `https://itorrent.ws/torrentek/category/${category}/title/${searchQuery}/qualities[]/${quality}/page/${page}/`;
-          const torrentsPage = await axios.get(link);
+          const torrentsPage = await axios.get(link, { signal });
           const $ = cheerio.load(torrentsPage.data);
 
           await Promise.all(
@@ -46,6 +51,8 @@ export const searchItorrent = async (
 
               if (!torrentHref || !name) return;
 
+              parsedOnPage++;
+
               const category = parseCategory($(el).find("i.zqf").attr("title"));
               const size = parseSize(
                 $(el).find("td:nth-child(5)").text().trim()
@@ -59,7 +66,9 @@ export const searchItorrent = async (
               let magnet: string | undefined;
 
               try {
-                const torrentPage = await axios.get(torrentPageLink);
+                const torrentPage = await axios.get(torrentPageLink, {
+                  signal,
+                });
                 const $ = cheerio.load(torrentPage.data);
 
                 const torrentFileHref = $("a.btn-primary.seed-warning").attr(
@@ -89,15 +98,41 @@ export const searchItorrent = async (
             })
           );
 
+          if (torrentsOnPage > 0 && parsedOnPage === 0)
+            throw new SourceSearchError(
+              "parse",
+              "Unrecognized iTorrent results page"
+            );
+
+          pages++;
+
           if (torrentsOnPage < 48) break;
-        } catch {
-          continue;
+        } catch (error) {
+          // Keep what the previous pages returned
+          if (page === 1) throw error;
+          break;
         }
       }
     })
   );
 
-  return torrents;
+  return { results: torrents, pages };
+};
+
+export const itorrentProvider: SourceProvider = {
+  id: "itorrent",
+  name: "iTorrent",
+  categories: ["movie", "show"],
+  credentials: [],
+  search: (query, categories, credentials, signal) =>
+    searchItorrent(
+      query,
+      categories.map((category) =>
+        category === "movie" ? ItorrentCategory.Film : ItorrentCategory.Sorozat
+      ),
+      [ItorrentQuality.HD, ItorrentQuality.SD, ItorrentQuality.CAM],
+      signal
+    ),
 };
 
 const parseCategory = (category: string | undefined) => {
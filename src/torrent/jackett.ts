@@ -1,6 +1,7 @@
 import { JackettApi } from "ts-jackett-api";
 import { JackettCategory } from "ts-jackett-api/lib/types/JackettCategory.js";
-import { TorrentSearchResult } from "./search.js";
+import { SourceSearchError } from "./errors.js";
+import { SourceProvider, SourceSearchResponse } from "./providers.js";
 
 const JACKETT_URL = process.env.JACKETT_URL;
 const JACKETT_KEY = process.env.JACKETT_KEY;
@@ -10,21 +11,24 @@ export const searchJackett = async (
   categories: JackettCategory[],
   jackettUrl?: string,
   jackettKey?: string
-): Promise<TorrentSearchResult[]> => {
-  try {
-    const url = jackettUrl || JACKETT_URL;
-    const key = jackettKey || JACKETT_KEY;
+): Promise<SourceSearchResponse> => {
+  const url = jackettUrl || JACKETT_URL;
+  const key = jackettKey || JACKETT_KEY;
 
-    if (!url || !key) return [];
+  if (!url || !key) return { results: [], pages: 0 };
 
-    const client = new JackettApi(url, key);
+  const client = new JackettApi(url, key);
 
-    const res = await client.search({
-      query: searchQuery,
-      category: categories,
-    });
+  const res = await client.search({
+    query: searchQuery,
+    category: categories,
+  });
 
-    return res.Results.map((result) => ({
+  if (!Array.isArray(res?.Results))
+    throw new SourceSearchError("parse", "Unexpected Jackett response");
+
+  return {
+    results: res.Results.map((result) => ({
       name: result.Title,
       tracker: result.Tracker,
       category: result.CategoryDesc || undefined,
@@ -33,8 +37,37 @@ export const searchJackett = async (
       peers: result.Peers,
       torrent: result.Link || undefined,
       magnet: result.MagnetUri || undefined,
-    }));
-  } catch (error) {
-    return [];
-  }
+    })),
+    pages: 1,
+  };
+};
+
+export const jackettProvider: SourceProvider = {
+  id: "jackett",
+  name: "Jackett",
+  categories: ["movie", "show"],
+  credentials: [
+    { name: "url", key: "jackettUrl", title: "Jackett API URL", type: "text" },
+    {
+      name: "apiKey",
+      key: "jackettKey",
+      title: "Jackett API Key",
+      type: "password",
+    },
+  ],
+  /**
+   * ts-jackett-api takes no AbortSignal, so timed out searches can't be
+   * cancelled. search.ts stops waiting, Jackett finishes them in the
+   * background and the late response is dropped.
+   */
+  timeout: 30 * 1000,
+  search: (query, categories, { url, apiKey }) =>
+    searchJackett(
+      query,
+      categories.map((category) =>
+        category === "movie" ? JackettCategory.Movies : JackettCategory.TV
+      ),
+      url,
+      apiKey
+    ),
 };
@@ -0,0 +1,79 @@
+import { TorrentSearchResult } from "./search.js";
+import { TorrentInfo, getTorrentInfo } from "./webtorrent.js";
+
+export interface MergedTorrent extends TorrentSearchResult {
+  trackers: string[];
+  /** Found by searching for the IMDb id rather than a title */
+  matchedById: boolean;
+}
+
+export const toMergedTorrent = (
+  torrent: TorrentSearchResult,
+  matchedById: boolean
+): MergedTorrent => ({
+  ...torrent,
+  trackers: [torrent.tracker],
+  matchedById,
+});
+
+const mergeTorrents = (a: MergedTorrent, b: MergedTorrent): MergedTorrent => {
+  const [best, other] = (b.seeds || 0) > (a.seeds || 0) ? [b, a] : [a, b];
+  return {
+    ...best,
+    torrent: best.torrent || other.torrent,
+    session: best.torrent ? best.session : other.session,
+    magnet: best.magnet || other.magnet,
+    infoHash: best.infoHash || other.infoHash,
+    trackers: [...new Set([...best.trackers, ...other.trackers])],
+    matchedById: best.matchedById || other.matchedById,
+  };
+};
+
+/** Releases found on several trackers are merged by their info hash */
+export const dedupeTorrents = (torrents: MergedTorrent[]) => {
+  const map = new Map<string, MergedTorrent>();
+
+  for (const torrent of torrents) {
+    const key = torrent.infoHash || `${torrent.tracker}:${torrent.name}`;
+    const existing = map.get(key);
+    map.set(key, existing ? mergeTorrents(existing, torrent) : torrent);
+  }
+
+  return [...map.values()];
+};
+
+/**
+ * Fetches metadata for every torrent, then merges again by the info hash
+ * from the metadata, which catches .torrent links without a known hash.
+ */
+export const resolveTorrents = async (torrents: MergedTorrent[]) => {
+  const resolved = new Map<
+    string,
+    { torrent: MergedTorrent; torrentInfo: TorrentInfo }
+  >();
+
+  const infos = await Promise.all(
+    torrents.map(async (torrent) => {
+      const info =
+        torrent.torrent &&
+        (await getTorrentInfo(torrent.torrent, torrent.session));
+      if (info) return info;
+      // The swarm is only asked when there's no usable .torrent link
+      return torrent.magnet ? await getTorrentInfo(torrent.magnet) : undefined;
+    })
+  );
+
+  torrents.forEach((torrent, index) => {
+    const torrentInfo = infos[index];
+    if (!torrentInfo) return;
+
+    const existing = resolved.get(torrentInfo.infoHash);
+    const merged = existing
+      ? mergeTorrents(existing.torrent, torrent)
+      : { ...torrent, infoHash: torrentInfo.infoHash };
+
+    resolved.set(torrentInfo.infoHash, { torrent: merged, torrentInfo });
+  });
+
+  return [...resolved.values()];
+};
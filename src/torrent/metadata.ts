@@ -0,0 +1,225 @@
+import axios from "axios";
+import { wrapper } from "axios-cookiejar-support";
+import crypto from "crypto";
+import fs from "fs-extra";
+import parseTorrent from "parse-torrent";
+import path from "path";
+import { DATA_DIR, createJsonWriter } from "../utils/data.js";
+import { getInfoHashFromMagnet, isInfoHash } from "../utils/magnet.js";
+import { findSessionJar } from "./sessions.js";
+import { TorrentInfo } from "./webtorrent.js";
+
+const METADATA_DIR =
+  process.env.METADATA_CACHE_DIR || path.join(DATA_DIR, "metadata");
+
+const URI_INDEX_PATH = path.join(METADATA_DIR, "uris.json");
+
+const META_INDEX_PATH = path.join(METADATA_DIR, "metas.json");
+
+const PATH_INDEX_PATH = path.join(METADATA_DIR, "paths.json");
+
+fs.ensureDirSync(METADATA_DIR);
+
+const infos = new Map<string, TorrentInfo>();
+
+/**
+ * Maps torrent URIs to info hashes, so .torrent links don't have to be
+ * downloaded again. URIs are hashed, private tracker links carry passkeys.
+ */
+const uriIndex: Record<string, string> = fs.existsSync(URI_INDEX_PATH)
+  ? fs.readJsonSync(URI_INDEX_PATH, { throws: false }) || {}
+  : {};
+
+const uriIndexWriter = createJsonWriter(URI_INDEX_PATH, () => uriIndex);
+
+const saveUriIndex = uriIndexWriter.save;
+
+export interface TorrentMetaLink {
+  /** Stremio meta id, e.g. "tt1160419" or "kitsu:7442" */
+  id: string;
+  type: string;
+}
+
+/** Which title each torrent was found for, to list them in the catalog */
+const metaIndex: Record<string, TorrentMetaLink> = fs.existsSync(
+  META_INDEX_PATH
+)
+  ? fs.readJsonSync(META_INDEX_PATH, { throws: false }) || {}
+  : {};
+
+const metaIndexWriter = createJsonWriter(META_INDEX_PATH, () => metaIndex);
+
+const saveMetaIndex = metaIndexWriter.save;
+
+/** The file or folder of a torrent in DOWNLOAD_DIR */
+export const getTopPath = (info: TorrentInfo) =>
+  info.files[0]?.path.split(path.sep)[0];
+
+const addToPathIndex = (index: Record<string, string[]>, info: TorrentInfo) => {
+  const topPath = getTopPath(info);
+  if (!topPath || index[topPath]?.includes(info.infoHash)) return false;
+  index[topPath] = [...(index[topPath] || []), info.infoHash];
+  return true;
+};
+
+/** Caches from before the index are indexed once, at the first start */
+const buildPathIndex = () => {
+  const index: Record<string, string[]> = {};
+  for (const file of fs.readdirSync(METADATA_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    if (!isInfoHash(file.slice(0, -".json".length))) continue;
+    const info = fs.readJsonSync(path.join(METADATA_DIR, file), {
+      throws: false,
+    });
+    if (info?.files) addToPathIndex(index, info);
+  }
+  return index;
+};
+
+/**
+ * Maps the top paths in DOWNLOAD_DIR to info hashes, so downloads can be
+ * listed without reading the info of every torrent ever found. Torrents
+ * with the same name share a path.
+ */
+const pathIndex: Record<string, string[]> = fs.existsSync(PATH_INDEX_PATH)
+  ? fs.readJsonSync(PATH_INDEX_PATH, { throws: false }) || {}
+  : buildPathIndex();
+
+const pathIndexWriter = createJsonWriter(PATH_INDEX_PATH, () => pathIndex);
+
+if (!fs.existsSync(PATH_INDEX_PATH)) pathIndexWriter.save();
+
+export const getInfoHashesByTopPath = (topPath: string) =>
+  pathIndex[topPath] || [];
+
+/** Writes pending index changes, for shutdown */
+export const flushMetadataIndexes = async () => {
+  await Promise.all([
+    uriIndexWriter.flush(),
+    metaIndexWriter.flush(),
+    pathIndexWriter.flush(),
+  ]);
+};
+
+export const linkTorrentMeta = (infoHash: string, link: TorrentMetaLink) => {
+  const existing = metaIndex[infoHash];
+  if (existing?.id === link.id && existing.type === link.type) return;
+  metaIndex[infoHash] = link;
+  saveMetaIndex();
+};
+
+export const getTorrentMetaLink = (infoHash: string) =>
+  metaIndex[infoHash] as TorrentMetaLink | undefined;
+
+const getUriKey = (uri: string) =>
+  crypto.createHash("sha1").update(uri).digest("hex");
+
+const getInfoPath = (infoHash: string) =>
+  path.join(METADATA_DIR, `${infoHash}.json`);
+
+const getTorrentFilePath = (infoHash: string) =>
+  path.join(METADATA_DIR, `${infoHash}.torrent`);
+
+export const getCachedInfoHash = (uri: string) => {
+  if (isInfoHash(uri)) return uri.toLowerCase();
+  return getInfoHashFromMagnet(uri) || uriIndex[getUriKey(uri)];
+};
+
+export const getCachedTorrentInfo = async (infoHash: string) => {
+  if (!isInfoHash(infoHash)) return undefined;
+
+  const cached = infos.get(infoHash);
+  if (cached) return cached;
+
+  try {
+    const info: TorrentInfo = await fs.readJson(getInfoPath(infoHash));
+    infos.set(infoHash, info);
+    return info;
+  } catch {
+    return undefined;
+  }
+};
+
+/** When the torrent was first seen, its contents never change after that */
+export const getCachedInfoTime = async (infoHash: string) => {
+  if (!isInfoHash(infoHash)) return undefined;
+
+  try {
+    return (await fs.stat(getInfoPath(infoHash))).mtime;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getCachedTorrentFile = async (infoHash: string) => {
+  if (!isInfoHash(infoHash)) return undefined;
+
+  try {
+    return await fs.readFile(getTorrentFilePath(infoHash));
+  } catch {
+    return undefined;
+  }
+};
+
+export const cacheTorrentMetadata = async (
+  uri: string,
+  info: TorrentInfo,
+  torrentFile?: Uint8Array
+) => {
+  infos.set(info.infoHash, info);
+
+  if (!getInfoHashFromMagnet(uri)) {
+    uriIndex[getUriKey(uri)] = info.infoHash;
+    saveUriIndex();
+  }
+
+  if (addToPathIndex(pathIndex, info)) pathIndexWriter.save();
+
+  try {
+    await fs.writeJson(getInfoPath(info.infoHash), info);
+    if (torrentFile?.length)
+      await fs.writeFile(getTorrentFilePath(info.infoHash), torrentFile);
+  } catch (error) {
+    console.warn(`Failed to cache metadata: ${info.name}`);
+  }
+};
+
+/**
+ * Downloads and decodes a .torrent file, using the cookies of the tracker
+ * session the link was found with, if any.
+ */
+export const downloadTorrentFile = async (
+  url: string,
+  timeout: number,
+  session?: string
+) => {
+  const jar = findSessionJar(session);
+  // @ts-ignore
+  const client = wrapper(axios.create({ jar }));
+
+  const res = await client.get(url, {
+    responseType: "arraybuffer",
+    maxContentLength: 10 * 1024 * 1024,
+    timeout,
+  });
+
+  const torrentFile = new Uint8Array(res.data);
+  const parsed = await parseTorrent(torrentFile);
+
+  if (!parsed.files || !parsed.infoHash)
+    throw new Error(`Not a torrent file: ${url}`);
+
+  const info: TorrentInfo = {
+    name: parsed.name || parsed.infoHash,
+    infoHash: parsed.infoHash,
+    size: parsed.length || 0,
+    pieceLength: parsed.pieceLength,
+    files: parsed.files.map((file) => ({
+      name: file.name,
+      path: file.path,
+      size: file.length,
+    })),
+  };
+
+  return { info, torrentFile };
+};
@@ -1,8 +1,10 @@
 import axios from "axios";
 import { wrapper } from "axios-cookiejar-support";
 import * as cheerio from "cheerio";
-import { CookieJar } from "tough-cookie";
+import { SourceSearchError } from "./errors.js";
+import { SourceProvider, SourceSearchResponse } from "./providers.js";
 import { TorrentSearchResult } from "./search.js";
+import { getSessionJar, getSessionKey } from "./sessions.js";
 import { isImdbId } from "../utils/imdb.js";
 
 const NCORE_USER = process.env.NCORE_USER;
@@ -23,94 +25,139 @@ export const searchNcore = async (
   searchQuery: string,
   categories: NcoreCategory[],
   ncoreUser?: string,
-  ncorePassword?: string
-): Promise<TorrentSearchResult[]> => {
-  try {
-    const user = ncoreUser || NCORE_USER;
-    const password = ncorePassword || NCORE_PASSWORD;
-
-    if (!user || !password) return [];
-
-    const jar = new CookieJar();
-    // @ts-ignore
-    const client = wrapper(axios.create({ jar, baseURL: "https://ncore.pro" }));
-
-    const formData = new FormData();
-    formData.append("nev", user);
-    formData.append("pass", password);
-    formData.append("set_lang", "hu");
-    formData.append("submitted", "1");
-    await client.post("/login.php", formData);
-
-    const torrents: TorrentSearchResult[] = [];
-
-    let page = 0;
-
-    while (page <= 5) {
-      try {
-        page++;
-
-        let torrentsOnPage = 0;
-
-        let params = new URLSearchParams({
-          oldal: page.toString(),
-          tipus: "kivalasztottak_kozott",
-          kivalasztott_tipus: categories.join(","),
-          mire: searchQuery,
-          miben: isImdbId(searchQuery) ? "imdb" : "name",
-          miszerint: "ctime",
-          hogyan: "DESC",
+  ncorePassword?: string,
+  signal?: AbortSignal
+): Promise<SourceSearchResponse> => {
+  const user = ncoreUser || NCORE_USER;
+  const password = ncorePassword || NCORE_PASSWORD;
+
+  if (!user || !password) return { results: [], pages: 0 };
+
+  const session = getSessionKey("https://ncore.pro", user, password);
+  const jar = getSessionJar(session);
+  // @ts-ignore
+  const client = wrapper(axios.create({ jar, baseURL: "https://ncore.pro" }));
+
+  const formData = new FormData();
+  formData.append("nev", user);
+  formData.append("pass", password);
+  formData.append("set_lang", "hu");
+  formData.append("submitted", "1");
+  await client.post("/login.php", formData, { signal });
+
+  const torrents: TorrentSearchResult[] = [];
+
+  let page = 0;
+
+  while (page <= 5) {
+    try {
+      page++;
+
+      let torrentsOnPage = 0;
+
+      let params = new URLSearchParams({
+        oldal: page.toString(),
+        tipus: "kivalasztottak_kozott",
+        kivalasztott_tipus: categories.join(","),
+        mire: searchQuery,
+        miben: isImdbId(searchQuery) ? "imdb" : "name",
+        miszerint: "ctime",
+        hogyan: "DESC",
+      });
+
+      const link = `/torrents.php?${params.toString()}}`;
+      const torrentsPage = await client.get(link, { signal });
+      const $ = cheerio.load(torrentsPage.data);
+
+      const rssUrl = $("link[rel=alternate]").attr("href");
+      const downloadKey = rssUrl?.split("=")[1];
+      if (!downloadKey)
+        throw new SourceSearchError("auth", "nCore login failed");
+
+      for (const el of $("div.box_torrent")) {
+        torrentsOnPage++;
+
+        const name = $(el).find("div.torrent_txt > a").attr("title");
+
+        const categoryHref = $(el)
+          .find("a > img.categ_link")
+          .parent()
+          .attr("href");
+
+        const tracker = "nCore";
+        const category = parseCategory(categoryHref?.split("=")[1]);
+        const size = parseSize($(el).find("div.box_meret2").text());
+        const seeds = Number($(el).find("div.box_s2").text());
+        const peers = Number($(el).find("div.box_l2").text());
+        const torrentId = $(el).next().next().attr("id");
+        const torrent = `https://ncore.pro/torrents.php?action=download&id=${torrentId}&key=${downloadKey}`;
+
+        if (!name || !torrentId) continue;
+
+        torrents.push({
+          name,
+          tracker,
+          category,
+          size,
+          seeds,
+          peers,
+          torrent,
+          session,
         });
-
-        const link = `/torrents.php?${params.toString()}}`;
-        const torrentsPage = await client.get(link);
-        const $ = cheerio.load(torrentsPage.data);
-
-        const rssUrl = $("link[rel=alternate]").attr("href");
-        const downloadKey = rssUrl?.split("=")[1];
-        if (!downloadKey) return torrents;
-
-        for (const el of $("div.box_torrent")) {
-          torrentsOnPage++;
-
-          const name = $(el).find("div.torrent_txt > a").attr("title");
-
-          const categoryHref = $(el)
-            .find("a > img.categ_link")
-            .parent()
-            .attr("href");
-
-          const tracker = "nCore";
-          const category = parseCategory(categoryHref?.split("=")[1]);
-          const size = parseSize($(el).find("div.box_meret2").text());
-          const seeds = Number($(el).find("div.box_s2").text());
-          const peers = Number($(el).find("div.box_l2").text());
-          const torrentId = $(el).next().next().attr("id");
-          const torrent = `https://ncore.pro/torrents.php?action=download&id=${torrentId}&key=${downloadKey}`;
-
-          if (!name || !torrentId) continue;
-
-          torrents.push({
-            name,
-            tracker,
-            category,
-            size,
-            seeds,
-            peers,
-            torrent,
-          });
-        }
-
-        if (torrentsOnPage < 50) break;
-      } catch {
-        continue;
       }
-    }
 
-    return torrents;
-  } catch (error) {
-    return [];
+      if (torrentsOnPage > 0 && torrents.length === 0)
+        throw new SourceSearchError("parse", "Unrecognized nCore results page");
+
+      if (torrentsOnPage < 50) break;
+    } catch (error) {
+      // Keep what the previous pages returned
+      if (page === 1) throw error;
+      page--;
+      break;
+    }
   }
+
+  return { results: torrents, pages: page };
+};
+
+export const ncoreProvider: SourceProvider = {
+  id: "ncore",
+  name: "nCore",
+  categories: ["movie", "show"],
+  enabledByDefault: true,
+  credentials: [
+    { name: "user", key: "nCoreUser", title: "nCore username", type: "text" },
+    {
+      name: "password",
+      key: "nCorePassword",
+      title: "nCore password",
+      type: "password",
+    },
+  ],
+  search: (query, categories, { user, password }, signal) => {
+    const ncoreCategories: NcoreCategory[] = [];
+
+    if (categories.includes("movie")) {
+      ncoreCategories.push(
+        NcoreCategory.Film_HD_HU,
+        NcoreCategory.Film_HD_EN,
+        NcoreCategory.Film_SD_HU,
+        NcoreCategory.Film_SD_EN
+      );
+    }
+
+    if (categories.includes("show")) {
+      ncoreCategories.push(
+        NcoreCategory.Sorozat_HD_HU,
+        NcoreCategory.Sorozat_HD_EN,
+        NcoreCategory.Sorozat_SD_HU,
+        NcoreCategory.Sorozat_SD_EN
+      );
+    }
+
+    return searchNcore(query, ncoreCategories, user, password, signal);
+  },
 };
 
 const parseCategory = (category: string | undefined) => {
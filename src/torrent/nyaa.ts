@@ -0,0 +1,99 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { SourceSearchError } from "./errors.js";
+import { SourceProvider, SourceSearchResponse } from "./providers.js";
+import { isImdbId } from "../utils/imdb.js";
+
+const NYAA_URL = process.env.NYAA_URL || "https://nyaa.si";
+
+const trackers = [
+  "http://nyaa.tracker.wf:7777/announce",
+  "udp://open.stealth.si:80/announce",
+  "udp://tracker.opentrackr.org:1337/announce",
+  "udp://exodus.desync.com:6969/announce",
+  "udp://tracker.torrent.eu.org:451/announce",
+];
+
+const trackersString = "&tr=" + trackers.join("&tr=");
+
+export enum NyaaCategory {
+  Anime = "1_0",
+  AnimeEnglish = "1_2",
+  AnimeRaw = "1_4",
+}
+
+export const searchNyaa = async (
+  searchQuery: string,
+  signal?: AbortSignal
+): Promise<SourceSearchResponse> => {
+  // Nyaa only knows titles
+  if (isImdbId(searchQuery)) return { results: [], pages: 0 };
+
+  const res = await axios.get(NYAA_URL, {
+    params: {
+      page: "rss",
+      q: searchQuery,
+      c: NyaaCategory.Anime,
+      f: "0",
+    },
+    responseType: "text",
+    signal,
+  });
+
+  const $ = cheerio.load(res.data, { xml: true });
+
+  if (!$("rss").length)
+    throw new SourceSearchError("parse", "Unexpected Nyaa response");
+
+  return {
+    results: $("item")
+      .toArray()
+      .map((item) => {
+        const field = (name: string) =>
+          $(item).children(`nyaa\\:${name}`).first().text().trim();
+
+        const infoHash = field("infoHash").toLowerCase();
+
+        return {
+          name: $(item).children("title").first().text().trim(),
+          tracker: "Nyaa",
+          category: `Anime/${field("category").replace(/^Anime - /, "")}`,
+          size: parseSize(field("size")),
+          seeds: Number(field("seeders")) || 0,
+          peers: Number(field("leechers")) || 0,
+          torrent: $(item).children("link").first().text().trim() || undefined,
+          magnet: infoHash
+            ? `magnet:?xt=urn:btih:${infoHash}${trackersString}`
+            : undefined,
+          infoHash: infoHash || undefined,
+        };
+      })
+      .filter((result) => result.name && (result.torrent || result.magnet)),
+    pages: 1,
+  };
+};
+
+export const nyaaProvider: SourceProvider = {
+  id: "nyaa",
+  name: "Nyaa",
+  categories: ["anime"],
+  credentials: [],
+  search: (query, categories, credentials, signal) => searchNyaa(query, signal),
+};
+
+const parseSize = (size: string) => {
+  const units: Record<string, number> = {
+    TiB: 1024 ** 4,
+    GiB: 1024 ** 3,
+    MiB: 1024 ** 2,
+    KiB: 1024,
+    Bytes: 1,
+  };
+
+  const [sizeStr, unit] = size.split(" ");
+  const sizeNum = Number(sizeStr);
+
+  if (!sizeNum || !units[unit]) return 0;
+
+  return Math.ceil(sizeNum * units[unit]);
+};
@@ -0,0 +1,60 @@
+import { Torrent, TorrentFile } from "webtorrent";
+
+/**
+ * The WebTorrent 2.x internals behind piece selection, they aren't in its
+ * public API or typings. Check them here when upgrading WebTorrent.
+ */
+interface TorrentInternals {
+  destroyed: boolean;
+  /** Pieces requested before any other, WebTorrent never clears them */
+  _critical: boolean[];
+  critical: (from: number, to: number) => void;
+  /** Stream selections can be removed one by one, unlike `deselect` ones */
+  _select: (
+    from: number,
+    to: number,
+    priority: number,
+    notify: null,
+    isStreamSelection: boolean
+  ) => void;
+  _deselect: (from: number, to: number, isStreamSelection: boolean) => void;
+}
+
+interface TorrentFileInternals {
+  _startPiece?: number;
+  _endPiece?: number;
+}
+
+const getInternals = (torrent: Torrent) =>
+  torrent as unknown as TorrentInternals;
+
+export const isTorrentDestroyed = (torrent: Torrent) =>
+  getInternals(torrent).destroyed;
+
+/** First and last piece of the file, inclusive */
+export const getFilePieces = (torrent: Torrent, file: TorrentFile) => {
+  const { _startPiece, _endPiece } = file as unknown as TorrentFileInternals;
+  return {
+    start: _startPiece ?? 0,
+    end: _endPiece ?? torrent.pieces.length - 1,
+  };
+};
+
+export const selectPieces = (
+  torrent: Torrent,
+  from: number,
+  to: number,
+  priority: number
+) => getInternals(torrent)._select(from, to, priority, null, true);
+
+/** Only removes a selection made by selectPieces with the same range */
+export const deselectPieces = (torrent: Torrent, from: number, to: number) =>
+  getInternals(torrent)._deselect(from, to, true);
+
+export const markCritical = (torrent: Torrent, from: number, to: number) =>
+  getInternals(torrent).critical(from, to);
+
+export const clearCritical = (torrent: Torrent, from: number, to: number) => {
+  const critical = getInternals(torrent)._critical || [];
+  for (let i = from; i <= to; i++) critical[i] = false;
+};
@@ -0,0 +1,96 @@
+import { eztvProvider } from "./eztv.js";
+import { insaneProvider } from "./insane.js";
+import { itorrentProvider } from "./itorrent.js";
+import { jackettProvider } from "./jackett.js";
+import { ncoreProvider } from "./ncore.js";
+import { nyaaProvider } from "./nyaa.js";
+import { TorrentCategory, TorrentSearchResult } from "./search.js";
+import { torznabProvider } from "./torznab.js";
+import { ytsProvider } from "./yts.js";
+
+export interface SourceCredentialField {
+  /** Option name passed to the provider's search function */
+  name: string;
+  /** Addon config key, also used as the manifest config key */
+  key: string;
+  title: string;
+  type: "text" | "password";
+}
+
+export type SourceCredentials = Record<string, string | undefined>;
+
+export interface SourceProvider {
+  id: string;
+  name: string;
+  categories: TorrentCategory[];
+  credentials: SourceCredentialField[];
+  enabledByDefault?: boolean;
+  /** Search timeout in ms, overridable with SEARCH_TIMEOUT_<ID> */
+  timeout?: number;
+  /**
+   * Should throw a SourceSearchError (or let HTTP errors through) on failure,
+   * so a failed search can be told apart from an empty one.
+   */
+  search: (
+    query: string,
+    categories: TorrentCategory[],
+    credentials: SourceCredentials,
+    signal: AbortSignal
+  ) => Promise<SourceSearchResponse>;
+}
+
+export interface SourceSearchResponse {
+  results: TorrentSearchResult[];
+  pages: number;
+}
+
+const providers = new Map<string, SourceProvider>();
+
+export const registerSourceProvider = (provider: SourceProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getSourceProviders = () => [...providers.values()];
+
+export const getSourceProvider = (id: string) => providers.get(id);
+
+export const getEnableKey = (provider: SourceProvider) =>
+  `enable${provider.id.charAt(0).toUpperCase()}${provider.id.slice(1)}`;
+
+export const getManifestConfig = (provider: SourceProvider) => [
+  {
+    title: `Enable ${provider.name} search`,
+    key: getEnableKey(provider),
+    type: "checkbox" as const,
+    ...(provider.enabledByDefault ? { default: "checked" } : {}),
+  },
+  ...provider.credentials.map(({ title, key, type }) => ({ title, key, type })),
+];
+
+export const getEnabledSources = (config: Record<string, string | undefined>) =>
+  getSourceProviders()
+    .filter((provider) => config[getEnableKey(provider)] === "on")
+    .map((provider) => provider.id);
+
+export const getSourceCredentials = (
+  config: Record<string, string | undefined>
+) =>
+  Object.fromEntries(
+    getSourceProviders().map((provider) => [
+      provider.id,
+      Object.fromEntries(
+        provider.credentials.map((field) => [field.name, config[field.key]])
+      ),
+    ])
+  );
+
+[
+  jackettProvider,
+  torznabProvider,
+  ncoreProvider,
+  insaneProvider,
+  itorrentProvider,
+  ytsProvider,
+  eztvProvider,
+  nyaaProvider,
+].forEach(registerSourceProvider);
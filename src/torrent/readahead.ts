@@ -0,0 +1,158 @@
+import { Torrent, TorrentFile } from "webtorrent";
+import { getFileEpisodeInfo } from "../utils/shows.js";
+import {
+  clearCritical,
+  deselectPieces,
+  getFilePieces,
+  isTorrentDestroyed,
+  markCritical,
+  selectPieces,
+} from "./pieces.js";
+
+/** Seconds of playback to download ahead of the read position */
+const READAHEAD_SECONDS = Number(process.env.READAHEAD_SECONDS) || 60;
+
+/** Seconds of playback right after the read position to fetch first */
+const CRITICAL_SECONDS = Number(process.env.READAHEAD_CRITICAL_SECONDS) || 10;
+
+const READAHEAD_MIN_SIZE =
+  Number(process.env.READAHEAD_MIN_SIZE) || 8 * 1024 * 1024;
+
+const READAHEAD_MAX_SIZE =
+  Number(process.env.READAHEAD_MAX_SIZE) || 512 * 1024 * 1024;
+
+/** Above the priority 1 WebTorrent gives the rest of a streamed file */
+const READAHEAD_PRIORITY = 2;
+
+/** Typical running times, to estimate the bitrate from the file size */
+const EPISODE_DURATION = 45 * 60;
+const MOVIE_DURATION = 2 * 60 * 60;
+
+interface ReadaheadWindow {
+  torrent: Torrent;
+  file: TorrentFile;
+  /** Estimated bytes per second of playback */
+  bitrate: number;
+  /** Pieces selected and marked critical, inclusive */
+  from: number;
+  to: number;
+  criticalTo: number;
+  /** Open readers, the newest one moves the window */
+  readers: number[];
+}
+
+export interface Readahead {
+  /** Called as the reader moves forward, with its position in the file */
+  update: (position: number) => void;
+  close: () => void;
+}
+
+const windows = new Map<string, ReadaheadWindow>();
+
+let lastReaderId = 0;
+
+const estimateBitrate = (file: TorrentFile) =>
+  file.length /
+  (getFileEpisodeInfo(file.path || file.name).episodes.length
+    ? EPISODE_DURATION
+    : MOVIE_DURATION);
+
+/**
+ * Swarms faster than the bitrate can buffer further ahead at no cost to
+ * playback, slow ones keep to the pieces needed next.
+ */
+const getWindowSize = (state: ReadaheadWindow) => {
+  const speed = state.torrent.downloadSpeed || 0;
+  const speedFactor = Math.min(4, Math.max(1, speed / state.bitrate));
+
+  return Math.min(
+    READAHEAD_MAX_SIZE,
+    Math.max(
+      READAHEAD_MIN_SIZE,
+      state.bitrate * READAHEAD_SECONDS * speedFactor
+    )
+  );
+};
+
+/** Stream selections are removed one by one, not carved out of the file's */
+const deselect = (state: ReadaheadWindow) => {
+  if (state.from < 0) return;
+  deselectPieces(state.torrent, state.from, state.to);
+  clearCritical(state.torrent, state.from, state.criticalTo);
+  state.from = state.to = state.criticalTo = -1;
+};
+
+/**
+ * Moves the window to start at the position. Pieces it leaves behind, or
+ * all of them after a seek, lose their priority instead of piling up.
+ */
+const moveWindow = (state: ReadaheadWindow, position: number) => {
+  const { torrent, file } = state;
+  const pieceLength = torrent.pieceLength;
+  if (!pieceLength || !file.length || isTorrentDestroyed(torrent)) return;
+
+  const { start: fileStart, end: fileEnd } = getFilePieces(torrent, file);
+  const toPiece = (offset: number) =>
+    Math.min(
+      fileEnd,
+      fileStart + Math.floor(Math.min(offset, file.length - 1) / pieceLength)
+    );
+
+  const from = toPiece(position);
+  const to = toPiece(position + getWindowSize(state));
+  const criticalTo = toPiece(position + state.bitrate * CRITICAL_SECONDS);
+
+  if (from === state.from && to === state.to) return;
+
+  try {
+    deselect(state);
+    selectPieces(torrent, from, to, READAHEAD_PRIORITY);
+    markCritical(torrent, from, criticalTo);
+    Object.assign(state, { from, to, criticalTo });
+  } catch (error) {
+    console.warn("Failed to move readahead:", error);
+  }
+};
+
+/**
+ * A sliding readahead window per open file, shared by its readers. Players
+ * open a new request when seeking, which re-centers the window.
+ */
+export const openReadahead = (
+  torrent: Torrent,
+  file: TorrentFile,
+  position: number
+): Readahead => {
+  const key = `${torrent.infoHash}:${file.path}`;
+  const readerId = ++lastReaderId;
+
+  const state: ReadaheadWindow = windows.get(key) || {
+    torrent,
+    file,
+    bitrate: estimateBitrate(file),
+    from: -1,
+    to: -1,
+    criticalTo: -1,
+    readers: [],
+  };
+  windows.set(key, state);
+
+  state.readers.push(readerId);
+  moveWindow(state, position);
+
+  const isNewestReader = () =>
+    state.readers[state.readers.length - 1] === readerId;
+
+  return {
+    update: (position) => {
+      if (isNewestReader()) moveWindow(state, position);
+    },
+    close: () => {
+      state.readers = state.readers.filter((id) => id !== readerId);
+      if (state.readers.length || windows.get(key) !== state) return;
+
+      if (!isTorrentDestroyed(torrent)) deselect(state);
+      windows.delete(key);
+    },
+  };
+};
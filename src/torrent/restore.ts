@@ -0,0 +1,68 @@
+import fs from "fs-extra";
+import path from "path";
+import { DATA_DIR } from "../utils/data.js";
+import { getCachedTorrentInfo } from "./metadata.js";
+import {
+  ActiveTorrentState,
+  TorrentInfo,
+  cleanDownloadDir,
+  getActiveTorrentStates,
+  restoreTorrent,
+} from "./webtorrent.js";
+
+const ACTIVE_TORRENTS_PATH = path.join(DATA_DIR, "active-torrents.json");
+
+/** Also saved on shutdown, this is for crashes */
+const ACTIVE_TORRENTS_SAVE_INTERVAL =
+  Number(process.env.ACTIVE_TORRENTS_SAVE_INTERVAL) || 30 * 1000;
+
+fs.ensureDirSync(DATA_DIR);
+
+let saveInterval: NodeJS.Timeout | undefined;
+
+export const saveActiveTorrents = async () => {
+  try {
+    await fs.writeJson(ACTIVE_TORRENTS_PATH, getActiveTorrentStates());
+  } catch {
+    console.warn("Failed to save active torrents");
+  }
+};
+
+/**
+ * Adds the torrents that were active when the server stopped, after cleaning
+ * up DOWNLOAD_DIR around their files. Returns once they're added, the files
+ * are verified in the background.
+ */
+export const restoreActiveTorrents = async () => {
+  const states: ActiveTorrentState[] =
+    (await fs.readJson(ACTIVE_TORRENTS_PATH).catch(() => [])) || [];
+
+  const restored: { state: ActiveTorrentState; info: TorrentInfo }[] = [];
+  for (const state of states) {
+    if (state.seedUntil && state.seedUntil <= Date.now()) continue;
+    const info = await getCachedTorrentInfo(state.infoHash);
+    if (info) restored.push({ state, info });
+  }
+
+  await cleanDownloadDir(restored.map(({ info }) => info));
+
+  for (const { state, info } of restored) {
+    restoreTorrent(state).then((ok) => {
+      if (ok) console.log(`Restored torrent: ${info.name}`);
+    });
+  }
+
+  saveInterval = setInterval(
+    saveActiveTorrents,
+    ACTIVE_TORRENTS_SAVE_INTERVAL
+  ).unref();
+};
+
+/**
+ * Saves the active torrents for the last time, before their streams are
+ * closed and they'd count as idle.
+ */
+export const stopSavingActiveTorrents = async () => {
+  clearInterval(saveInterval);
+  await saveActiveTorrents();
+};
@@ -1,40 +1,27 @@
-import { JackettCategory } from "ts-jackett-api/lib/types/JackettCategory.js";
-import { searchEztv } from "./eztv.js";
+import crypto from "crypto";
+import { createCache } from "../utils/cache.js";
+import { getInfoHashFromMagnet } from "../utils/magnet.js";
 import {
-  ItorrentCategory,
-  ItorrentQuality,
-  searchItorrent,
-} from "./itorrent.js";
-import { searchJackett } from "./jackett.js";
-import { NcoreCategory, searchNcore } from "./ncore.js";
-import { searchYts } from "./yts.js";
-import { InsaneCategory, searchInsane } from "./insane.js";
-
-export type TorrentCategory = "movie" | "show";
-
-export type TorrentSource =
-  | "jackett"
-  | "ncore"
-  | "insane"
-  | "itorrent"
-  | "yts"
-  | "eztv";
+  SourceErrorKind,
+  SourceSearchError,
+  getSourceErrorKind,
+} from "./errors.js";
+import { recordSourceOutcome } from "./health.js";
+import {
+  SourceCredentials,
+  SourceProvider,
+  getSourceProviders,
+} from "./providers.js";
+
+export type TorrentCategory = "movie" | "show" | "anime";
+
+export type TorrentSource = string;
 
 export interface TorrentSearchOptions {
   categories?: TorrentCategory[];
   sources?: TorrentSource[];
-  jackett?: {
-    url?: string;
-    apiKey?: string;
-  };
-  ncore?: {
-    user?: string;
-    password?: string;
-  };
-  insane?: {
-    user?: string;
-    password?: string;
-  };
+  /** Credentials per source, e.g. `{ ncore: { user, password } }` */
+  credentials?: Record<TorrentSource, SourceCredentials>;
 }
 
 export interface TorrentSearchResult {
@@ -45,9 +32,45 @@ export interface TorrentSearchResult {
   seeds?: number;
   peers?: number;
   torrent?: string;
+  /** Tracker session to download the .torrent link with, see sessions.ts */
+  session?: string;
   magnet?: string;
+  infoHash?: string;
+}
+
+export interface SourceSearchOutcome {
+  source: TorrentSource;
+  results: TorrentSearchResult[];
+  duration: number;
+  pages: number;
+  error?: { kind: SourceErrorKind; message: string };
+}
+
+interface SourceSearch {
+  provider: SourceProvider;
+  categories: TorrentCategory[];
+  credentials: SourceCredentials;
 }
 
+const SEARCH_TIMEOUT = Number(process.env.SEARCH_TIMEOUT) || 20 * 1000;
+
+const SEARCH_CACHE_TTL = process.env.SEARCH_CACHE_TTL
+  ? Number(process.env.SEARCH_CACHE_TTL)
+  : 30 * 60 * 1000;
+
+const SEARCH_CACHE_STALE_TIME =
+  Number(process.env.SEARCH_CACHE_STALE_TIME) || 6 * 60 * 60 * 1000;
+
+const SEARCH_CACHE_DIR = process.env.SEARCH_CACHE_DIR;
+
+const searchCache = createCache<TorrentSearchResult[]>({
+  ttl: SEARCH_CACHE_TTL,
+  staleTime: SEARCH_CACHE_STALE_TIME,
+  dir: SEARCH_CACHE_DIR,
+});
+
+const pendingSearches = new Map<string, Promise<TorrentSearchResult[]>>();
+
 export const searchTorrents = async (
   query: string,
   options?: TorrentSearchOptions
@@ -55,122 +78,150 @@ export const searchTorrents = async (
   const searchAllCategories = !options?.categories?.length;
   const searchAllSources = !options?.sources?.length;
 
-  const promises: Promise<TorrentSearchResult[]>[] = [];
-
-  if (options?.sources?.includes("jackett") || searchAllSources) {
-    const categories = new Set<JackettCategory>();
-
-    if (options?.categories?.includes("movie") || searchAllCategories) {
-      categories.add(JackettCategory.Movies);
-    }
+  const searches: SourceSearch[] = [];
 
-    if (options?.categories?.includes("show") || searchAllCategories) {
-      categories.add(JackettCategory.TV);
-    }
+  for (const provider of getSourceProviders()) {
+    if (!searchAllSources && !options?.sources?.includes(provider.id)) continue;
 
-    promises.push(
-      searchJackett(
-        query,
-        Array.from(categories),
-        options?.jackett?.url,
-        options?.jackett?.apiKey
-      )
+    const categories = provider.categories.filter(
+      (category) =>
+        searchAllCategories || options?.categories?.includes(category)
     );
-  }
+    if (!categories.length) continue;
 
-  if (options?.sources?.includes("ncore") || searchAllSources) {
-    const categories = new Set<NcoreCategory>();
-
-    if (options?.categories?.includes("movie") || searchAllCategories) {
-      categories.add(NcoreCategory.Film_HD_HU);
-      categories.add(NcoreCategory.Film_HD_EN);
-      categories.add(NcoreCategory.Film_SD_HU);
-      categories.add(NcoreCategory.Film_SD_EN);
-    }
-
-    if (options?.categories?.includes("show") || searchAllCategories) {
-      categories.add(NcoreCategory.Sorozat_HD_HU);
-      categories.add(NcoreCategory.Sorozat_HD_EN);
-      categories.add(NcoreCategory.Sorozat_SD_HU);
-      categories.add(NcoreCategory.Sorozat_SD_EN);
-    }
-
-    promises.push(
-      searchNcore(
-        query,
-        Array.from(categories),
-        options?.ncore?.user,
-        options?.ncore?.password
-      )
-    );
+    searches.push({
+      provider,
+      categories,
+      credentials: options?.credentials?.[provider.id] || {},
+    });
   }
 
-  if (options?.sources?.includes("insane") || searchAllSources) {
-    const categories = new Set<InsaneCategory>();
-
-    if (options?.categories?.includes("movie") || searchAllCategories) {
-      categories.add(InsaneCategory.Film_Hun_SD);
-      categories.add(InsaneCategory.Film_Hun_HD);
-      categories.add(InsaneCategory.Film_Hun_UHD);
-      categories.add(InsaneCategory.Film_Eng_SD);
-      categories.add(InsaneCategory.Film_Eng_HD);
-      categories.add(InsaneCategory.Film_Eng_UHD);
-    }
-
-    if (options?.categories?.includes("show") || searchAllCategories) {
-      categories.add(InsaneCategory.Sorozat_Hun);
-      categories.add(InsaneCategory.Sorozat_Hun_HD);
-      categories.add(InsaneCategory.Sorozat_Hun_UHD);
-      categories.add(InsaneCategory.Sorozat_Eng);
-      categories.add(InsaneCategory.Sorozat_Eng_HD);
-      categories.add(InsaneCategory.Sorozat_Eng_UHD);
-    }
-
-    promises.push(
-      searchInsane(
-        query,
-        Array.from(categories),
-        options?.insane?.user,
-        options?.insane?.password
-      )
+  const search = async () => {
+    const outcomes = await Promise.all(
+      searches.map((search) => searchSource(query, search))
     );
-  }
+    outcomes.forEach(recordSourceOutcome);
+
+    const results = outcomes.flatMap((outcome) => outcome.results);
 
-  if (options?.sources?.includes("itorrent") || searchAllSources) {
-    const categories = new Set<ItorrentCategory>();
+    console.log(`Search: got ${results.length} results for ${query}`);
 
-    if (options?.categories?.includes("movie") || searchAllCategories) {
-      categories.add(ItorrentCategory.Film);
-    }
+    return { results, failed: outcomes.some((outcome) => outcome.error) };
+  };
 
-    if (options?.categories?.includes("show") || searchAllCategories) {
-      categories.add(ItorrentCategory.Sorozat);
-    }
+  if (SEARCH_CACHE_TTL <= 0) return (await search()).results;
 
-    const qualities = [
-      ItorrentQuality.HD,
-      ItorrentQuality.SD,
-      ItorrentQuality.CAM,
-    ];
+  const key = getSearchCacheKey(query, searches);
+  const cached = searchCache.get(key);
 
-    promises.push(searchItorrent(query, Array.from(categories), qualities));
-  }
+  if (cached && !cached.stale) return cached.value;
+
+  let pending = pendingSearches.get(key);
 
-  if (options?.sources?.includes("yts") || searchAllSources) {
-    if (options?.categories?.includes("movie") || searchAllCategories) {
-      promises.push(searchYts(query));
-    }
+  if (!pending) {
+    pending = search()
+      .then(({ results, failed }) => {
+        // Don't keep partial results around, retry on the next request
+        if (!failed) searchCache.set(key, results);
+        return results;
+      })
+      .finally(() => pendingSearches.delete(key));
+
+    pendingSearches.set(key, pending);
   }
 
-  if (options?.sources?.includes("eztv") || searchAllSources) {
-    if (options?.categories?.includes("show") || searchAllCategories) {
-      promises.push(searchEztv(query));
-    }
+  // Serve stale results right away and let the search refresh them
+  if (cached) {
+    pending.catch(() => {});
+    return cached.value;
   }
 
-  const results = (await Promise.all(promises)).flat();
+  return await pending;
+};
 
-  console.log(`Search: got ${results.length} results for ${query}`);
+const getSourceTimeout = (provider: SourceProvider) =>
+  Number(process.env[`SEARCH_TIMEOUT_${provider.id.toUpperCase()}`]) ||
+  provider.timeout ||
+  SEARCH_TIMEOUT;
 
-  return results;
+const searchSource = async (
+  query: string,
+  { provider, categories, credentials }: SourceSearch
+): Promise<SourceSearchOutcome> => {
+  const start = Date.now();
+  const timeout = getSourceTimeout(provider);
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const { results, pages } = await Promise.race([
+      provider.search(query, categories, credentials, controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(
+            new SourceSearchError("timeout", `No response in ${timeout}ms`)
+          );
+        }, timeout);
+      }),
+    ]);
+
+    results.forEach((result) => {
+      result.infoHash ||= getInfoHashFromMagnet(result.magnet);
+    });
+
+    return {
+      source: provider.id,
+      results,
+      duration: Date.now() - start,
+      pages,
+    };
+  } catch (error) {
+    return {
+      source: provider.id,
+      results: [],
+      duration: Date.now() - start,
+      pages: 0,
+      error: {
+        kind: getSourceErrorKind(error),
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  } finally {
+    clearTimeout(timer);
+  }
 };
+
+/**
+ * Credentials are part of the key (hashed), because private tracker results
+ * carry personal download links that must not be served to other users.
+ */
+const getSearchCacheKey = (query: string, searches: SourceSearch[]) => {
+  const categories = [...new Set(searches.flatMap((s) => s.categories))].sort();
+  const sources = searches.map((s) => s.provider.id).sort();
+
+  const credentials = crypto
+    .createHash("sha1")
+    .update(
+      JSON.stringify(
+        searches.map((s) => [
+          s.provider.id,
+          Object.entries(s.credentials).sort(),
+        ])
+      )
+    )
+    .digest("hex")
+    .slice(0, 12);
+
+  return JSON.stringify({ query, categories, sources, credentials });
+};
+
+export const getSearchCacheEntries = () =>
+  searchCache.list().map(({ value, ...entry }) => ({
+    ...entry,
+    results: value.length,
+  }));
+
+export const deleteSearchCacheEntry = (id: string) => searchCache.remove(id);
+
+export const clearSearchCache = () => searchCache.clear();
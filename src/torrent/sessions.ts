@@ -0,0 +1,34 @@
+import crypto from "crypto";
+import { CookieJar } from "tough-cookie";
+
+/** Sessions only live in memory, so their keys don't have to outlive it */
+const SESSION_KEY_SECRET = crypto.randomBytes(32);
+
+const jars = new Map<string, CookieJar>();
+
+/**
+ * Sessions are per tracker and credentials, so a profile never downloads with
+ * another one's login. The key is an HMAC, search results carry it around.
+ */
+export const getSessionKey = (
+  baseUrl: string,
+  user: string,
+  password: string
+) =>
+  crypto
+    .createHmac("sha256", SESSION_KEY_SECRET)
+    .update(JSON.stringify([new URL(baseUrl).host, user, password]))
+    .digest("hex");
+
+/**
+ * Logged in tracker sessions are kept around, so .torrent files from private
+ * trackers can be downloaded with the same cookies the search used.
+ */
+export const getSessionJar = (session: string) => {
+  const jar = jars.get(session) || new CookieJar();
+  jars.set(session, jar);
+  return jar;
+};
+
+export const findSessionJar = (session?: string) =>
+  session ? jars.get(session) : undefined;
@@ -0,0 +1,259 @@
+import axios from "axios";
+import * as cheerio from "cheerio";
+import { SourceSearchError } from "./errors.js";
+import { SourceProvider, SourceSearchResponse } from "./providers.js";
+import { TorrentCategory, TorrentSearchResult } from "./search.js";
+import { isImdbId } from "../utils/imdb.js";
+
+const TORZNAB_URLS = process.env.TORZNAB_URLS;
+const TORZNAB_KEYS = process.env.TORZNAB_KEYS;
+
+export enum TorznabCategory {
+  Movies = 2000,
+  TV = 5000,
+}
+
+const categoryNames: Record<number, string> = {
+  2000: "Movies",
+  2010: "Movies/Foreign",
+  2020: "Movies/Other",
+  2030: "Movies/SD",
+  2040: "Movies/HD",
+  2045: "Movies/UHD",
+  2050: "Movies/BluRay",
+  2060: "Movies/3D",
+  2070: "Movies/DVD",
+  2080: "Movies/WEB-DL",
+  5000: "TV",
+  5010: "TV/WEB-DL",
+  5020: "TV/Foreign",
+  5030: "TV/SD",
+  5040: "TV/HD",
+  5045: "TV/UHD",
+  5050: "TV/Other",
+  5060: "TV/Sport",
+  5070: "TV/Anime",
+  5080: "TV/Documentary",
+};
+
+interface TorznabIndexer {
+  url: string;
+  apiKey: string;
+}
+
+export const getTorznabCategory = (
+  category: number
+): TorrentCategory | undefined => {
+  if (category >= 2000 && category < 3000) return "movie";
+  if (category >= 5000 && category < 6000) return "show";
+  return undefined;
+};
+
+export const getTorznabIndexers = (
+  torznabUrls?: string,
+  torznabKeys?: string
+): TorznabIndexer[] => {
+  const urls = (torznabUrls || TORZNAB_URLS || "").split(",");
+  const keys = (torznabKeys || TORZNAB_KEYS || "").split(",");
+
+  return urls
+    .map((url, index) => ({
+      url: url.trim(),
+      apiKey: keys[index]?.trim() || "",
+    }))
+    .filter((indexer) => indexer.url);
+};
+
+export const searchTorznab = async (
+  searchQuery: string,
+  categories: TorrentCategory[],
+  indexers: TorznabIndexer[],
+  signal?: AbortSignal
+): Promise<SourceSearchResponse> => {
+  if (!indexers.length) return { results: [], pages: 0 };
+
+  const requests = indexers.flatMap((indexer) =>
+    getSearchParams(searchQuery, categories).map((params) => ({
+      indexer,
+      params,
+    }))
+  );
+
+  const responses = await Promise.allSettled(
+    requests.map(({ indexer, params }) =>
+      searchIndexer(indexer, params, categories, signal)
+    )
+  );
+
+  const failed = responses.find(
+    (res): res is PromiseRejectedResult => res.status === "rejected"
+  );
+
+  const results = responses.flatMap((res) =>
+    res.status === "fulfilled" ? res.value : []
+  );
+
+  // One working indexer is enough, only report when all of them failed
+  if (failed && responses.every((res) => res.status === "rejected"))
+    throw failed.reason;
+
+  return { results, pages: requests.length };
+};
+
+const getSearchParams = (
+  searchQuery: string,
+  categories: TorrentCategory[]
+) => {
+  const getCategoryParam = (category: TorrentCategory) =>
+    category === "movie" ? TorznabCategory.Movies : TorznabCategory.TV;
+
+  if (isImdbId(searchQuery)) {
+    // Torznab expects the numeric part of the IMDb id
+    const imdbid = searchQuery.replace(/^tt/, "");
+
+    return categories.map((category) => ({
+      t: category === "movie" ? "movie" : "tvsearch",
+      imdbid,
+      cat: getCategoryParam(category).toString(),
+    }));
+  }
+
+  return [
+    {
+      t: "search",
+      q: searchQuery,
+      cat: categories.map(getCategoryParam).join(","),
+    },
+  ];
+};
+
+const searchIndexer = async (
+  indexer: TorznabIndexer,
+  params: Record<string, string>,
+  categories: TorrentCategory[],
+  signal?: AbortSignal
+): Promise<TorrentSearchResult[]> => {
+  const res = await axios.get(indexer.url, {
+    params: { ...params, apikey: indexer.apiKey, extended: "1" },
+    responseType: "text",
+    signal,
+  });
+
+  const $ = cheerio.load(res.data, { xml: true });
+
+  const error = $("error").first();
+  if (error.length) {
+    const code = Number(error.attr("code"));
+    const message = error.attr("description") || `Torznab error ${code}`;
+    throw new SourceSearchError(
+      code >= 100 && code < 200 ? "auth" : "parse",
+      message
+    );
+  }
+
+  if (!$("rss").length)
+    throw new SourceSearchError("parse", "Unexpected Torznab response");
+
+  const indexerName =
+    $("channel > title").first().text().trim() || new URL(indexer.url).host;
+
+  return $("item")
+    .toArray()
+    .map((item) => {
+      const attrs: Record<string, string[]> = {};
+
+      for (const el of $(item).children().toArray()) {
+        if (!("tagName" in el) || !/^(torznab|newznab):attr$/.test(el.tagName))
+          continue;
+        const name = $(el).attr("name");
+        const value = $(el).attr("value");
+        if (!name || value === undefined) continue;
+        (attrs[name] ||= []).push(value);
+      }
+
+      const attr = (name: string) => attrs[name]?.[0];
+
+      const link = $(item).children("link").first().text().trim();
+      const enclosure = $(item).children("enclosure").attr("url");
+      const magnet =
+        attr("magneturl") ||
+        [link, enclosure].find((url) => url?.startsWith("magnet:"));
+      const torrent = [enclosure, link].find(
+        (url) => url && !url.startsWith("magnet:")
+      );
+
+      const categoryCodes = [
+        ...(attrs.category || []),
+        ...$(item)
+          .children("category")
+          .toArray()
+          .map((el) => $(el).text()),
+      ]
+        .map(Number)
+        .filter(Boolean);
+
+      const tracker =
+        $(item).children("prowlarrindexer, jackettindexer").first().text() ||
+        indexerName;
+
+      const imdb = attr("imdb") || attr("imdbid");
+
+      return {
+        name: $(item).children("title").first().text().trim(),
+        tracker,
+        category: categoryCodes
+          .map((code) => categoryNames[code])
+          .find(Boolean),
+        size:
+          Number($(item).children("size").text()) ||
+          Number(attr("size")) ||
+          Number($(item).children("enclosure").attr("length")) ||
+          undefined,
+        seeds: Number(attr("seeders")) || 0,
+        peers: Number(attr("peers")) || 0,
+        torrent,
+        magnet,
+        infoHash: attr("infohash")?.toLowerCase(),
+        imdbId: imdb
+          ? `tt${imdb.replace(/^tt/, "").padStart(7, "0")}`
+          : undefined,
+        categories: categoryCodes
+          .map(getTorznabCategory)
+          .filter((category): category is TorrentCategory => !!category),
+      };
+    })
+    .filter((result) => {
+      if (!result.name || (!result.torrent && !result.magnet)) return false;
+      if (params.imdbid && result.imdbId !== undefined)
+        return result.imdbId === `tt${params.imdbid}`;
+      if (result.categories.length)
+        return result.categories.some((category) =>
+          categories.includes(category)
+        );
+      return true;
+    })
+    .map(({ imdbId, categories, ...result }) => result);
+};
+
+export const torznabProvider: SourceProvider = {
+  id: "torznab",
+  name: "Torznab",
+  categories: ["movie", "show"],
+  credentials: [
+    {
+      name: "urls",
+      key: "torznabUrls",
+      title: "Torznab API URLs (comma separated)",
+      type: "text",
+    },
+    {
+      name: "apiKeys",
+      key: "torznabKeys",
+      title: "Torznab API keys (comma separated, same order as URLs)",
+      type: "password",
+    },
+  ],
+  timeout: 30 * 1000,
+  search: (query, categories, { urls, apiKeys }, signal) =>
+    searchTorznab(query, categories, getTorznabIndexers(urls, apiKeys), signal),
+};
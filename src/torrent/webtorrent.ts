@@ -4,6 +4,16 @@ import os from "os";
 import path from "path";
 import WebTorrent, { Torrent } from "webtorrent";
 import { getReadableDuration } from "../utils/file.js";
+import { createLimiter } from "../utils/limit.js";
+import {
+  cacheTorrentMetadata,
+  downloadTorrentFile,
+  getCachedInfoHash,
+  getCachedTorrentFile,
+  getCachedTorrentInfo,
+  getInfoHashesByTopPath,
+  getTopPath,
+} from "./metadata.js";
 
 interface FileInfo {
   name: string;
@@ -21,6 +31,7 @@ export interface TorrentInfo {
   name: string;
   infoHash: string;
   size: number;
+  pieceLength?: number;
   files: FileInfo[];
 }
 
@@ -35,14 +46,15 @@ interface ActiveTorrentInfo extends TorrentInfo {
   files: ActiveFileInfo[];
 }
 
-const DOWNLOAD_DIR =
+export const DOWNLOAD_DIR =
   process.env.DOWNLOAD_DIR || path.join(os.tmpdir(), "torrent-stream-server");
 
+/** On by default with a cache size limit, see disk.ts */
 const KEEP_DOWNLOADED_FILES = process.env.KEEP_DOWNLOADED_FILES
   ? process.env.KEEP_DOWNLOADED_FILES === "true"
-  : false;
+  : !!process.env.CACHE_MAX_SIZE;
 
-if (!KEEP_DOWNLOADED_FILES) fs.emptyDirSync(DOWNLOAD_DIR);
+fs.ensureDirSync(DOWNLOAD_DIR);
 
 const MAX_CONNS_PER_TORRENT = Number(process.env.MAX_CONNS_PER_TORRENT) || 50;
 
@@ -56,6 +68,13 @@ const SEED_TIME = Number(process.env.SEED_TIME) || 60 * 1000;
 
 const TORRENT_TIMEOUT = Number(process.env.TORRENT_TIMEOUT) || 5 * 1000;
 
+/** Restored torrents verify their files on disk before they're ready */
+const TORRENT_RESTORE_TIMEOUT =
+  Number(process.env.TORRENT_RESTORE_TIMEOUT) || 10 * 60 * 1000;
+
+const TORRENT_INFO_CONCURRENCY =
+  Number(process.env.TORRENT_INFO_CONCURRENCY) || 10;
+
 /**
  * Opt-in only. If true, WebTorrent skips the initial on-disk piece scan and assumes
  * the store is complete — on an empty or fresh download dir that marks 100% with
@@ -128,6 +147,47 @@ export const getStats = () => {
   };
 };
 
+/**
+ * Without KEEP_DOWNLOADED_FILES, files of earlier sessions are deleted at
+ * startup, except those of the torrents being restored.
+ */
+export const cleanDownloadDir = async (restored: TorrentInfo[]) => {
+  if (KEEP_DOWNLOADED_FILES) return;
+
+  const keep = new Set(restored.map(getTopPath));
+  for (const entry of await fs.readdir(DOWNLOAD_DIR)) {
+    if (!keep.has(entry)) await fs.remove(path.join(DOWNLOAD_DIR, entry));
+  }
+};
+
+/**
+ * Torrents with files in DOWNLOAD_DIR, the active ones and with
+ * KEEP_DOWNLOADED_FILES those left from earlier sessions. Files are sparse,
+ * so the allocated blocks tell how much of them is downloaded.
+ */
+export const getDownloadedTorrents = async () => {
+  const entries: string[] = await fs.readdir(DOWNLOAD_DIR).catch(() => []);
+  const torrents: { info: TorrentInfo; downloaded: number }[] = [];
+
+  const infoHashes = entries.flatMap(getInfoHashesByTopPath);
+  for (const infoHash of new Set(infoHashes)) {
+    const info = await getCachedTorrentInfo(infoHash);
+    if (!info) continue;
+
+    let downloaded = 0;
+    for (const file of info.files) {
+      const stat = await fs
+        .stat(path.join(DOWNLOAD_DIR, file.path))
+        .catch(() => undefined);
+      if (stat) downloaded += Math.min(stat.blocks * 512, file.size);
+    }
+
+    if (downloaded) torrents.push({ info, downloaded });
+  }
+
+  return torrents;
+};
+
 /**
  * discovery.complete() starts the "download finished" tracker announce. WebTorrent
  * calls it in the same callback chain as the last piece's SHA1 + store.put, which
@@ -145,10 +205,26 @@ const deferDiscoveryComplete = (torrent: Torrent) => {
   };
 };
 
-export const getOrAddTorrent = (uri: string) =>
-  new Promise<Torrent | undefined>((resolve) => {
+/**
+ * Torrents are only added from metadata cached by getTorrentInfo, stream
+ * links can't make the server fetch anything else.
+ */
+export const getOrAddTorrent = async (
+  infoHash: string,
+  readyTimeout = TORRENT_TIMEOUT
+) => {
+  const existing = await streamClient.get(infoHash);
+  if (existing)
+    return existing.ready
+      ? existing
+      : await waitForReady(existing, readyTimeout);
+
+  const torrentFile = await getCachedTorrentFile(infoHash);
+  if (!torrentFile) return undefined;
+
+  return await new Promise<Torrent | undefined>((resolve) => {
     const torrent = streamClient.add(
-      uri,
+      torrentFile,
       {
         path: DOWNLOAD_DIR,
         destroyStoreOnDestroy: !KEEP_DOWNLOADED_FILES,
@@ -196,17 +272,68 @@ export const getOrAddTorrent = (uri: string) =>
     const timeout = setTimeout(() => {
       torrent.destroy();
       resolve(undefined);
-    }, TORRENT_TIMEOUT);
+    }, readyTimeout);
+  });
+};
+
+const waitForReady = (torrent: Torrent, readyTimeout: number) =>
+  new Promise<Torrent | undefined>((resolve) => {
+    const timeout = setTimeout(() => resolve(undefined), readyTimeout);
+    torrent.once("ready", () => {
+      clearTimeout(timeout);
+      resolve(torrent);
+    });
   });
 
-export const getFile = (torrent: Torrent, pathStr: string) =>
-  torrent.files.find((file) => file.path === pathStr);
+export const getFile = (torrent: Torrent, index: number) =>
+  torrent.files[index];
+
+const infoLimit = createLimiter(TORRENT_INFO_CONCURRENCY);
+const pendingInfos = new Map<string, Promise<TorrentInfo | undefined>>();
+
+/** The session is only used to download .torrent links, see sessions.ts */
+export const getTorrentInfo = async (uri: string, session?: string) => {
+  const infoHash = getCachedInfoHash(uri);
+  const cached = infoHash && (await getCachedTorrentInfo(infoHash));
+  if (cached) return cached;
+
+  let pending = pendingInfos.get(uri);
+
+  if (!pending) {
+    pending = infoLimit(() =>
+      /^https?:/.test(uri)
+        ? getTorrentInfoFromUrl(uri, session)
+        : getTorrentInfoFromSwarm(uri)
+    ).finally(() => pendingInfos.delete(uri));
+
+    pendingInfos.set(uri, pending);
+  }
+
+  return await pending;
+};
+
+const getTorrentInfoFromUrl = async (url: string, session?: string) => {
+  try {
+    const { info, torrentFile } = await downloadTorrentFile(
+      url,
+      TORRENT_TIMEOUT,
+      session
+    );
+    console.log(`Fetched info: ${info.name}`);
+    await cacheTorrentMetadata(url, info, torrentFile);
+    return info;
+  } catch {
+    return undefined;
+  }
+};
 
-export const getTorrentInfo = async (uri: string) => {
+/** Magnets only, joins the swarm to get the metadata from peers */
+const getTorrentInfoFromSwarm = async (uri: string) => {
   const getInfo = (torrent: Torrent): TorrentInfo => ({
     name: torrent.name,
     infoHash: torrent.infoHash,
     size: torrent.length,
+    pieceLength: torrent.pieceLength,
     files: torrent.files.map((file) => ({
       name: file.name,
       path: file.path,
@@ -222,6 +349,7 @@ export const getTorrentInfo = async (uri: string) => {
         clearTimeout(timeout);
         const info = getInfo(torrent);
         console.log(`Fetched info: ${info.name}`);
+        cacheTorrentMetadata(uri, info, torrent.torrentFile);
         torrent.destroy();
         resolve(info);
       }
@@ -237,6 +365,31 @@ export const getTorrentInfo = async (uri: string) => {
 const timeouts = new Map<string, NodeJS.Timeout>();
 const openStreams = new Map<string, number>();
 
+/** When idle torrents are removed, kept to restore them after a restart */
+const seedDeadlines = new Map<string, number>();
+
+/** Files streamed from each torrent, selected again when it's restored */
+const streamedFiles = new Map<string, Set<string>>();
+
+const scheduleRemoval = (hash: string, delay: number) => {
+  clearTimeout(timeouts.get(hash));
+  seedDeadlines.set(hash, Date.now() + delay);
+
+  const timeout = setTimeout(async () => {
+    timeouts.delete(hash);
+    seedDeadlines.delete(hash);
+    streamedFiles.delete(hash);
+
+    const torrent = await streamClient.get(hash);
+    // @ts-ignore
+    torrent?.destroy(undefined, () => {
+      console.log(`Removed torrent: ${torrent.name}`);
+    });
+  }, delay);
+
+  timeouts.set(hash, timeout);
+};
+
 export const streamOpened = (hash: string, fileName: string) => {
   console.log(`Stream opened: ${fileName}`);
   const count = openStreams.get(hash) || 0;
@@ -246,6 +399,7 @@ export const streamOpened = (hash: string, fileName: string) => {
   if (timeout) {
     clearTimeout(timeout);
     timeouts.delete(hash);
+    seedDeadlines.delete(hash);
   }
 };
 
@@ -257,25 +411,20 @@ export const streamClosed = (hash: string, fileName: string) => {
   if (count > 1) return;
   openStreams.delete(hash);
 
-  let timeout = timeouts.get(hash);
-  if (timeout) return;
+  if (timeouts.has(hash)) return;
 
-  timeout = setTimeout(async () => {
-    const torrent = await streamClient.get(hash);
-    // @ts-ignore
-    torrent?.destroy(undefined, () => {
-      console.log(`Removed torrent: ${torrent.name}`);
-      timeouts.delete(hash);
-    });
-  }, SEED_TIME);
-
-  timeouts.set(hash, timeout);
+  scheduleRemoval(hash, SEED_TIME);
 };
 
 export const removeTorrent = async (infoHash: string) => {
-  const torrent: any = streamClient.get(infoHash);
+  const torrent: any = await streamClient.get(infoHash);
   if (!torrent) return false;
 
+  clearTimeout(timeouts.get(infoHash));
+  timeouts.delete(infoHash);
+  seedDeadlines.delete(infoHash);
+  streamedFiles.delete(infoHash);
+
   // Prefer the client API (most compatible)
   await new Promise<void>((resolve) => {
     // destroyStore will delete files if the store supports it (per WebTorrent docs)
@@ -292,6 +441,17 @@ export const removeTorrent = async (infoHash: string) => {
   return true;
 };
 
+/** Removes the torrent if it's active, then its files even if they're kept */
+export const deleteDownloadedTorrent = async (info: TorrentInfo) => {
+  await removeTorrent(info.infoHash);
+
+  const topPath = getTopPath(info);
+  const target = topPath && path.resolve(DOWNLOAD_DIR, topPath);
+  if (!target || path.dirname(target) !== path.resolve(DOWNLOAD_DIR)) return;
+
+  await fs.remove(target);
+};
+
 // Add near openStreams/timeouts
 const openFileStreams = new Map<string, Map<string, number>>();
 
@@ -301,6 +461,9 @@ export const fileStreamOpened = (hash: string, filePath: string) => {
   const cur = perTorrent.get(filePath) || 0;
   perTorrent.set(filePath, cur + 1);
   openFileStreams.set(hash, perTorrent);
+
+  const streamed = streamedFiles.get(hash) || new Set<string>();
+  streamedFiles.set(hash, streamed.add(filePath));
 };
 
 // Call when a specific file stream closes
@@ -317,4 +480,67 @@ export const fileStreamClosed = (hash: string, filePath: string) => {
 export const getOpenFilePaths = (hash: string) => {
   const perTorrent = openFileStreams.get(hash);
   return perTorrent ? [...perTorrent.keys()] : [];
-};
\ No newline at end of file
+};
+
+export interface ActiveTorrentState {
+  infoHash: string;
+  /** Paths of the streamed files */
+  files: string[];
+  /** When it's removed unless a stream opens, unset while streaming */
+  seedUntil?: number;
+}
+
+export const getActiveTorrentStates = (): ActiveTorrentState[] =>
+  streamClient.torrents
+    .filter((torrent) => torrent.infoHash)
+    .map((torrent) => ({
+      infoHash: torrent.infoHash,
+      files: [...(streamedFiles.get(torrent.infoHash) || [])],
+      seedUntil: seedDeadlines.get(torrent.infoHash),
+    }));
+
+/**
+ * Adds a torrent of an earlier session again. Its files on disk are verified
+ * first, and it's removed when it would have been if no stream opens.
+ */
+export const restoreTorrent = async (state: ActiveTorrentState) => {
+  const delay = state.seedUntil ? state.seedUntil - Date.now() : SEED_TIME;
+  if (delay <= 0) return false;
+
+  const torrent = await getOrAddTorrent(
+    state.infoHash,
+    TORRENT_RESTORE_TIMEOUT
+  );
+  if (!torrent) return false;
+
+  for (const file of torrent.files) {
+    if (!state.files.includes(file.path)) continue;
+    file.select();
+    const streamed = streamedFiles.get(state.infoHash) || new Set<string>();
+    streamedFiles.set(state.infoHash, streamed.add(file.path));
+  }
+
+  if (!openStreams.get(state.infoHash)) scheduleRemoval(state.infoHash, delay);
+
+  return true;
+};
+
+/** Keeps the files on disk, they're restored at the next start */
+export const destroyClients = async () => {
+  await Promise.all(
+    streamClient.torrents.map(
+      (torrent) =>
+        new Promise<void>((resolve) =>
+          // @ts-ignore
+          torrent.destroy({ destroyStore: false }, () => resolve())
+        )
+    )
+  );
+
+  await Promise.all(
+    [streamClient, infoClient].map(
+      (client) =>
+        new Promise<void>((resolve) => client.destroy(() => resolve()))
+    )
+  );
+};
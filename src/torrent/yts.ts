@@ -1,5 +1,5 @@
 import { details, search } from "yts-api-node";
-import { TorrentSearchResult } from "./search.js";
+import { SourceProvider, SourceSearchResponse } from "./providers.js";
 import { isImdbId } from "../utils/imdb.js";
 
 const trackers = [
@@ -17,12 +17,12 @@ const trackersString = "&tr=" + trackers.join("&tr=");
 
 export const searchYts = async (
   searchQuery: string
-): Promise<TorrentSearchResult[]> => {
-  try {
-    if (isImdbId(searchQuery)) {
-      const res = await details({ movie_id: searchQuery });
+): Promise<SourceSearchResponse> => {
+  if (isImdbId(searchQuery)) {
+    const res = await details({ movie_id: searchQuery });
 
-      return res.data.movie.torrents.map((torrent) => ({
+    return {
+      results: (res.data.movie?.torrents ?? []).map((torrent) => ({
         name: `${res.data.movie.title_long} ${torrent.quality} ${torrent.type
           .replace("bluray", "BluRay")
           .replace("web", "WEB")}`,
@@ -33,11 +33,14 @@ export const searchYts = async (
         peers: torrent.peers,
         torrent: torrent.url,
         magnet: `magnet:?xt=urn:btih:${torrent.hash}${trackersString}`,
-      }));
-    } else {
-      const res = await search({ query_term: searchQuery });
+      })),
+      pages: 1,
+    };
+  } else {
+    const res = await search({ query_term: searchQuery });
 
-      return res.data.movies.flatMap((movie) =>
+    return {
+      results: (res.data.movies ?? []).flatMap((movie) =>
         movie.torrents.map((torrent) => ({
           name: `${movie.title_long} ${torrent.quality} ${torrent.type
             .replace("bluray", "BluRay")
@@ -50,9 +53,16 @@ export const searchYts = async (
           torrent: torrent.url,
           magnet: `magnet:?xt=urn:btih:${torrent.hash}${trackersString}`,
         }))
-      );
-    }
-  } catch (error) {
-    return [];
+      ),
+      pages: 1,
+    };
   }
 };
+
+export const ytsProvider: SourceProvider = {
+  id: "yts",
+  name: "YTS",
+  categories: ["movie"],
+  credentials: [],
+  search: (query) => searchYts(query),
+};
@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { getSecret } from "./secret.js";
+
+export enum Permission {
+  /** Stats page, source health, cache listings */
+  Stats = "stats",
+  /** Deleting torrents, purging caches */
+  Manage = "manage",
+  /** Torrent search and info endpoints, they use our tracker credentials */
+  Search = "search",
+  /** Creating, editing and revoking addon config profiles */
+  Profiles = "profiles",
+}
+
+const ADMIN_USER = process.env.ADMIN_USER;
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
+
+/** Extra API tokens with limited permissions, e.g. `token1:stats,search;token2:*` */
+const API_TOKENS = process.env.API_TOKENS;
+
+/**
+ * Without any credentials set, an admin token is generated on first start
+ * and kept in DATA_DIR, so the management API is never open to anyone.
+ */
+const ADMIN_TOKEN =
+  process.env.ADMIN_TOKEN ||
+  (API_TOKENS || (ADMIN_USER && ADMIN_PASSWORD)
+    ? undefined
+    : getSecret("ADMIN_TOKEN", (token, tokenPath) =>
+        console.log(`Generated admin token (kept in ${tokenPath}): ${token}`)
+      ));
+
+const SESSION_TTL = Number(process.env.SESSION_TTL) || 7 * 24 * 60 * 60 * 1000;
+
+const SESSION_COOKIE = "session";
+
+const SESSION_SECRET = getSecret("SESSION_SECRET");
+
+const allPermissions = Object.values(Permission);
+
+const apiTokens = new Map<string, Permission[]>(
+  (API_TOKENS || "")
+    .split(";")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([token]) => token)
+    .map(([token, permissions = ""]) => [
+      token,
+      permissions.trim() === "*"
+        ? allPermissions
+        : allPermissions.filter((permission) =>
+            permissions.split(",").some((p) => p.trim() === permission)
+          ),
+    ])
+);
+
+if (ADMIN_TOKEN) apiTokens.set(ADMIN_TOKEN, allPermissions);
+
+const safeEqual = (a: string, b: string) => {
+  const hashA = crypto.createHash("sha256").update(a).digest();
+  const hashB = crypto.createHash("sha256").update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+};
+
+const signSession = (payload: string) =>
+  crypto
+    .createHmac("sha256", SESSION_SECRET)
+    .update(payload)
+    .digest("base64url");
+
+const getCookie = (req: Request, name: string) =>
+  req.headers.cookie
+    ?.split(";")
+    .map((cookie) => cookie.trim().split("="))
+    .find(([key]) => key === name)?.[1];
+
+const getSessionPermissions = (req: Request) => {
+  const session = getCookie(req, SESSION_COOKIE);
+  if (!session) return [];
+
+  const [expires, signature] = session.split(".");
+  if (!expires || !signature) return [];
+  if (!safeEqual(signature, signSession(expires))) return [];
+  if (Number(expires) < Date.now()) return [];
+
+  return allPermissions;
+};
+
+const getTokenPermissions = (req: Request) => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith("Bearer ") ? header.slice(7) : undefined;
+  if (!token) return [];
+
+  for (const [apiToken, permissions] of apiTokens) {
+    if (safeEqual(token, apiToken)) return permissions;
+  }
+
+  return [];
+};
+
+export const hasPermission = (req: Request, permission: Permission) =>
+  getTokenPermissions(req).includes(permission) ||
+  getSessionPermissions(req).includes(permission);
+
+/**
+ * Pages redirect to the login form, API routes answer 401 so scripts can
+ * send a bearer token instead.
+ */
+export const requirePermission =
+  (permission: Permission, options?: { page?: boolean }) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (hasPermission(req, permission)) return next();
+
+    if (options?.page) {
+      return res.redirect(`/login?next=${encodeURIComponent(req.originalUrl)}`);
+    }
+
+    const authenticated =
+      getTokenPermissions(req).length || getSessionPermissions(req).length;
+
+    res
+      .status(authenticated ? 403 : 401)
+      .json({ ok: false, error: authenticated ? "Forbidden" : "Unauthorized" });
+  };
+
+export const login = (req: Request, res: Response) => {
+  const { user, password, token } = req.body || {};
+
+  const isAdmin =
+    (!!ADMIN_USER &&
+      !!ADMIN_PASSWORD &&
+      typeof user === "string" &&
+      typeof password === "string" &&
+      safeEqual(user, ADMIN_USER) &&
+      safeEqual(password, ADMIN_PASSWORD)) ||
+    (!!ADMIN_TOKEN &&
+      typeof token === "string" &&
+      safeEqual(token, ADMIN_TOKEN));
+
+  if (!isAdmin) return false;
+
+  const expires = (Date.now() + SESSION_TTL).toString();
+
+  res.cookie(SESSION_COOKIE, `${expires}.${signSession(expires)}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: req.secure,
+    maxAge: SESSION_TTL,
+  });
+
+  return true;
+};
+
+export const logout = (res: Response) => {
+  res.clearCookie(SESSION_COOKIE);
+};
@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+
+export interface CacheEntry<T> {
+  id: string;
+  key: string;
+  value: T;
+  createdAt: number;
+}
+
+interface CacheOptions {
+  /** Entries younger than this are fresh */
+  ttl: number;
+  /** Entries are served as stale for this long after the TTL, then dropped */
+  staleTime?: number;
+  /** Optional directory to persist entries to, one JSON file per entry */
+  dir?: string;
+}
+
+export const createCache = <T>({ ttl, staleTime = 0, dir }: CacheOptions) => {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  const getId = (key: string) =>
+    crypto.createHash("sha1").update(key).digest("hex");
+
+  const isExpired = (entry: CacheEntry<T>) =>
+    Date.now() - entry.createdAt > ttl + staleTime;
+
+  const getFilePath = (id: string) => path.join(dir!, `${id}.json`);
+
+  if (dir) {
+    fs.ensureDirSync(dir);
+
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const entry: CacheEntry<T> = fs.readJsonSync(path.join(dir, file));
+        if (isExpired(entry)) fs.removeSync(path.join(dir, file));
+        else entries.set(entry.id, entry);
+      } catch {
+        fs.removeSync(path.join(dir, file));
+      }
+    }
+  }
+
+  const remove = (id: string) => {
+    const existed = entries.delete(id);
+    if (dir) fs.remove(getFilePath(id)).catch(() => {});
+    return existed;
+  };
+
+  const get = (key: string) => {
+    const entry = entries.get(getId(key));
+    if (!entry) return undefined;
+
+    if (isExpired(entry)) {
+      remove(entry.id);
+      return undefined;
+    }
+
+    return { value: entry.value, stale: Date.now() - entry.createdAt > ttl };
+  };
+
+  const set = (key: string, value: T) => {
+    const entry: CacheEntry<T> = {
+      id: getId(key),
+      key,
+      value,
+      createdAt: Date.now(),
+    };
+    entries.set(entry.id, entry);
+    if (dir) fs.writeJson(getFilePath(entry.id), entry).catch(() => {});
+  };
+
+  const list = () =>
+    [...entries.values()]
+      .filter((entry) => !isExpired(entry))
+      .map((entry) => ({
+        ...entry,
+        expiresAt: entry.createdAt + ttl,
+        stale: Date.now() - entry.createdAt > ttl,
+      }));
+
+  const clear = () => {
+    const ids = [...entries.keys()];
+    ids.forEach(remove);
+    return ids.length;
+  };
+
+  return { get, set, list, remove, clear };
+};
@@ -0,0 +1,35 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+/** Persistent server state (caches, keys, settings), unlike DOWNLOAD_DIR */
+export const DATA_DIR =
+  process.env.DATA_DIR || path.join(os.tmpdir(), "torrent-stream-data");
+
+/**
+ * Writes a JSON file at most once a second however often it changes. Pending
+ * changes are written right away by `flush`, so they survive a shutdown.
+ */
+export const createJsonWriter = (filePath: string, getData: () => unknown) => {
+  let timeout: NodeJS.Timeout | undefined;
+  let writing = Promise.resolve();
+
+  const write = () => {
+    timeout = undefined;
+    writing = writing
+      .then(() => fs.writeJson(filePath, getData()))
+      .catch(() => {});
+    return writing;
+  };
+
+  return {
+    save: () => {
+      if (!timeout) timeout = setTimeout(write, 1000);
+    },
+    flush: () => {
+      if (!timeout) return writing;
+      clearTimeout(timeout);
+      return write();
+    },
+  };
+};
@@ -3,20 +3,19 @@ import mime from "mime";
 export const isVideoFile = (filename: string) =>
   mime.getType(filename)?.startsWith("video") || false;
 
+/** Text subtitle formats that can be converted to WebVTT */
 export const isSubtitleFile = (filename: string) =>
   filename.toLowerCase().endsWith(".srt") ||
   filename.toLowerCase().endsWith(".sub") ||
   filename.toLowerCase().endsWith(".vtt") ||
-  filename.toLowerCase().endsWith(".smi") ||
   filename.toLowerCase().endsWith(".ssa") ||
-  filename.toLowerCase().endsWith(".ass") ||
-  filename.toLowerCase().endsWith(".txt");
+  filename.toLowerCase().endsWith(".ass");
 
+/** M4V is MP4 to players, the rest are served as what they are */
 export const getStreamingMimeType = (filename: string) => {
   const mimeType = mime.getType(filename);
-  return mimeType?.startsWith("video")
-    ? "video/mp4"
-    : mimeType || "application/unknown";
+  if (mimeType === "video/x-m4v") return "video/mp4";
+  return mimeType || "application/octet-stream";
 };
 
 export const getReadableSize = (bytes: number) => {
@@ -0,0 +1,141 @@
+import { ParsedRelease } from "./release.js";
+
+interface Keyword {
+  label: string;
+  regex: RegExp;
+}
+
+export interface ReleaseFilters {
+  blockedGroups: string[];
+  allowedGroups: string[];
+  blockedKeywords: Keyword[];
+  allowedKeywords: Keyword[];
+  blockedTrackers: string[];
+  allowedTrackers: string[];
+}
+
+export interface ReleaseFilterConfig {
+  blockedGroups?: string;
+  allowedGroups?: string;
+  blockedKeywords?: string;
+  allowedKeywords?: string;
+  blockedTrackers?: string;
+  allowedTrackers?: string;
+}
+
+const escapeRegex = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/** Names separated by commas or pipes, compared case-insensitively */
+const parseNames = (value?: string) =>
+  (value || "")
+    .split(/[,|]/)
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+/** Regexes come from anyone with the install URL, these keep them cheap */
+const MAX_PATTERN_LENGTH = 100;
+const MAX_NAME_LENGTH = 300;
+
+/** Quantified groups with quantifiers inside, e.g. `(a+)+`, backtrack forever */
+const NESTED_QUANTIFIER = /\([^()]*[+*}][^()]*\)[+*{]/;
+
+const parseRegex = (keyword: string) => {
+  const regex = keyword.match(/^\/(.+)\/([a-z]*)$/);
+  if (!regex) return undefined;
+
+  if (regex[1].length > MAX_PATTERN_LENGTH || NESTED_QUANTIFIER.test(regex[1]))
+    throw new Error("Too complex");
+  return new RegExp(regex[1], regex[2].replace("g", ""));
+};
+
+/** Comma separated keywords or regexes like `/x26[45]/i` */
+const parseKeywords = (value?: string) =>
+  (value || "")
+    .split(",")
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+    .flatMap((keyword): Keyword[] => {
+      try {
+        return [
+          {
+            label: keyword,
+            regex:
+              parseRegex(keyword) ||
+              new RegExp(
+                `(?<![a-z0-9])${escapeRegex(keyword)}(?![a-z0-9])`,
+                "i"
+              ),
+          },
+        ];
+      } catch {
+        console.warn(`Invalid keyword filter: ${keyword}`);
+        return [];
+      }
+    });
+
+const isKeywordMatch = ({ regex }: Keyword, name: string) =>
+  regex.test(name.slice(0, MAX_NAME_LENGTH));
+
+export const parseReleaseFilters = (
+  config: ReleaseFilterConfig
+): ReleaseFilters => ({
+  blockedGroups: parseNames(config.blockedGroups),
+  allowedGroups: parseNames(config.allowedGroups),
+  blockedKeywords: parseKeywords(config.blockedKeywords),
+  allowedKeywords: parseKeywords(config.allowedKeywords),
+  blockedTrackers: parseNames(config.blockedTrackers),
+  allowedTrackers: parseNames(config.allowedTrackers),
+});
+
+export const hasAllowLists = (filters: ReleaseFilters) =>
+  !!(
+    filters.allowedGroups.length ||
+    filters.allowedKeywords.length ||
+    filters.allowedTrackers.length
+  );
+
+/** Checks a torrent or file name against the group and keyword block lists */
+export const isBlockedRelease = (
+  filters: ReleaseFilters,
+  name: string,
+  release: ParsedRelease
+) =>
+  (!!release.group &&
+    filters.blockedGroups.includes(release.group.toLowerCase())) ||
+  filters.blockedKeywords.some((keyword) => isKeywordMatch(keyword, name));
+
+/** Releases are only dropped when every tracker they were found on is blocked */
+export const isBlockedTrackers = (
+  filters: ReleaseFilters,
+  trackers: string[]
+) =>
+  !!filters.blockedTrackers.length &&
+  trackers.every((tracker) =>
+    filters.blockedTrackers.includes(tracker.toLowerCase())
+  );
+
+/** Why a stream matches the allow lists, shown in its description */
+export const getAllowReasons = (
+  filters: ReleaseFilters,
+  releases: { name: string; release: ParsedRelease }[],
+  trackers: string[]
+) => {
+  const reasons = new Set<string>();
+
+  for (const { name, release } of releases) {
+    const group = release.group?.toLowerCase();
+    if (group && filters.allowedGroups.includes(group))
+      reasons.add(`group ${release.group}`);
+
+    for (const keyword of filters.allowedKeywords) {
+      if (isKeywordMatch(keyword, name)) reasons.add(keyword.label);
+    }
+  }
+
+  for (const tracker of trackers) {
+    if (filters.allowedTrackers.includes(tracker.toLowerCase()))
+      reasons.add(`tracker ${tracker}`);
+  }
+
+  return [...reasons];
+};
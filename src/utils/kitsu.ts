@@ -0,0 +1,81 @@
+import axios from "axios";
+import { createCache } from "./cache.js";
+import { parseReleaseName } from "./release.js";
+
+const KITSU_API_URL = process.env.KITSU_API_URL || "https://kitsu.io/api/edge";
+
+const KITSU_TIMEOUT = Number(process.env.KITSU_TIMEOUT) || 10 * 1000;
+
+const KITSU_CACHE_TTL =
+  Number(process.env.KITSU_CACHE_TTL) || 24 * 60 * 60 * 1000;
+
+export interface KitsuAnime {
+  /** Romaji and English titles, the ones release names use */
+  titles: string[];
+  /** Season of the Kitsu entry, sequels are separate entries */
+  season: number;
+  /** Episode of the entry, missing for movies */
+  episode?: number;
+}
+
+/** e.g. "kitsu:7442" for movies or "kitsu:7442:5" for episodes */
+export const isKitsuId = (id: string) => /^kitsu:\d+(:\d+)?$/.test(id);
+
+type KitsuEntry = Omit<KitsuAnime, "episode">;
+
+/** Entries by Kitsu id, every episode of an entry shares one */
+const entryCache = createCache<KitsuEntry>({ ttl: KITSU_CACHE_TTL });
+
+const fetchKitsuEntry = async (kitsuId: string): Promise<KitsuEntry> => {
+  const { attributes } = (
+    await axios.get(`${KITSU_API_URL}/anime/${kitsuId}`, {
+      headers: { Accept: "application/vnd.api+json" },
+      timeout: KITSU_TIMEOUT,
+    })
+  ).data.data;
+
+  const titles = [
+    attributes.titles?.en_jp,
+    attributes.titles?.en,
+    attributes.titles?.en_us,
+    attributes.canonicalTitle,
+  ]
+    .filter((title): title is string => !!title?.trim())
+    // Release names are in latin script
+    .filter((title) => /^[\p{Script=Latin}\p{N}\p{P}\p{Zs}]+$/u.test(title));
+
+  // Sequels are named like "Title 2nd Season" or "Title Season 3", search
+  // for the show's title and match the season in the release names instead
+  const releases = titles.map(parseReleaseName);
+  const season = releases.find(({ seasons }) => seasons.length === 1)
+    ?.seasons[0];
+
+  return {
+    titles: [
+      ...new Set(
+        releases.map((release, index) =>
+          release.seasons.length ? release.title : titles[index]
+        )
+      ),
+    ],
+    season: season ?? 1,
+  };
+};
+
+export const getKitsuAnime = async (
+  id: string
+): Promise<KitsuAnime | undefined> => {
+  const [, kitsuId, episode] = id.split(":");
+
+  try {
+    let entry = entryCache.get(kitsuId)?.value;
+    if (!entry) {
+      entry = await fetchKitsuEntry(kitsuId);
+      entryCache.set(kitsuId, entry);
+    }
+
+    return { ...entry, episode: episode ? Number(episode) : undefined };
+  } catch {
+    return undefined;
+  }
+};
@@ -1,16 +1,151 @@
-export const guessLanguage = (name: string, category?: string) => {
-  if (category?.includes("HU")) return "Hungarian";
+import { ParsedRelease, ReleaseFlag, languages } from "./release.js";
 
-  const split = name
-    .toLowerCase()
-    .replace(/\W/g, " ")
-    .replace("x", " ")
-    .split(" ");
+interface LanguageInfo {
+  name: string;
+  /** ISO 639-1 */
+  code: string;
+  /** ISO 639-2, what Stremio expects for subtitles */
+  code3: string;
+  flag: string;
+}
 
-  if (split.includes("hun") || split.includes("hungarian")) return "Hungarian";
-  if (split.includes("ger") || split.includes("german")) return "German";
-  if (split.includes("fre") || split.includes("french")) return "French";
-  if (split.includes("ita") || split.includes("italian")) return "Italian";
+const languageInfos: LanguageInfo[] = [
+  { name: "English", code: "en", code3: "eng", flag: "🇬🇧" },
+  { name: "Hungarian", code: "hu", code3: "hun", flag: "🇭🇺" },
+  { name: "German", code: "de", code3: "ger", flag: "🇩🇪" },
+  { name: "French", code: "fr", code3: "fre", flag: "🇫🇷" },
+  { name: "Italian", code: "it", code3: "ita", flag: "🇮🇹" },
+  { name: "Spanish", code: "es", code3: "spa", flag: "🇪🇸" },
+  { name: "Portuguese", code: "pt", code3: "por", flag: "🇵🇹" },
+  { name: "Russian", code: "ru", code3: "rus", flag: "🇷🇺" },
+  { name: "Polish", code: "pl", code3: "pol", flag: "🇵🇱" },
+  { name: "Czech", code: "cs", code3: "cze", flag: "🇨🇿" },
+  { name: "Slovak", code: "sk", code3: "slo", flag: "🇸🇰" },
+  { name: "Romanian", code: "ro", code3: "rum", flag: "🇷🇴" },
+  { name: "Dutch", code: "nl", code3: "dut", flag: "🇳🇱" },
+  { name: "Swedish", code: "sv", code3: "swe", flag: "🇸🇪" },
+  { name: "Danish", code: "da", code3: "dan", flag: "🇩🇰" },
+  { name: "Norwegian", code: "no", code3: "nor", flag: "🇳🇴" },
+  { name: "Finnish", code: "fi", code3: "fin", flag: "🇫🇮" },
+  { name: "Turkish", code: "tr", code3: "tur", flag: "🇹🇷" },
+  { name: "Greek", code: "el", code3: "gre", flag: "🇬🇷" },
+  { name: "Ukrainian", code: "uk", code3: "ukr", flag: "🇺🇦" },
+  { name: "Japanese", code: "ja", code3: "jpn", flag: "🇯🇵" },
+  { name: "Korean", code: "ko", code3: "kor", flag: "🇰🇷" },
+  { name: "Chinese", code: "zh", code3: "chi", flag: "🇨🇳" },
+  { name: "Hindi", code: "hi", code3: "hin", flag: "🇮🇳" },
+  { name: "Arabic", code: "ar", code3: "ara", flag: "🇸🇦" },
+  { name: "Hebrew", code: "he", code3: "heb", flag: "🇮🇱" },
+];
 
-  return "English";
+export interface StreamLanguages {
+  audio: string[];
+  subtitles: string[];
+  multi: boolean;
+}
+
+export const getLanguageInfo = (name: string) =>
+  languageInfos.find((info) => info.name === name);
+
+const findLanguage = (value: string) => {
+  const str = value.trim().toLowerCase();
+  return languageInfos.find(
+    (info) =>
+      info.name.toLowerCase() === str || info.code === str || info.code3 === str
+  )?.name;
+};
+
+/** Tracker categories end with the language, e.g. "Movies/HD/HU" */
+export const getCategoryLanguage = (category?: string) => {
+  const code = category?.split("/").pop();
+  return code && /^[A-Z]{2}$/.test(code) ? findLanguage(code) : undefined;
+};
+
+/**
+ * e.g. "Movie.2020.hun.srt", "Subs/2_English.srt", "movie.hu.srt" or
+ * "Subs/Hungarian/Movie.srt"
+ */
+export const getSubtitleLanguage = (path: string) => {
+  const folders = path.split(/[/\\]/);
+  const name = folders.pop()!.replace(/\.[^.]+$/, "");
+  const fromTokens = languages.find(([, regex]) => regex.test(name))?.[0];
+  if (fromTokens) return fromTokens;
+
+  const code = name.match(/(?:^|[^a-z])([a-z]{2,3})$/i)?.[1];
+  const fromCode = code && findLanguage(code);
+  if (fromCode) return fromCode;
+
+  // Only folders named just after the language, not the release folder
+  return folders.reverse().map(findLanguage).find(Boolean);
+};
+
+export const getStreamLanguages = (
+  release: ParsedRelease,
+  category?: string,
+  subtitleFiles: string[] = []
+): StreamLanguages => {
+  const multi =
+    release.flags.includes(ReleaseFlag.Multi) ||
+    release.flags.includes(ReleaseFlag.DualAudio);
+
+  const audio = [getCategoryLanguage(category), ...release.languages].filter(
+    (language): language is string => !!language
+  );
+
+  const subtitles = [
+    ...release.subtitles,
+    ...subtitleFiles.map(getSubtitleLanguage),
+  ].filter((language): language is string => !!language);
+
+  return {
+    // Untagged releases are most likely in English
+    audio: audio.length || multi ? [...new Set(audio)] : ["English"],
+    subtitles: [...new Set(subtitles)],
+    multi,
+  };
+};
+
+/** Accepts names or ISO codes, e.g. "Hungarian, en" */
+export const parsePreferredLanguages = (value?: string) => [
+  ...new Set(
+    (value || "")
+      .split(",")
+      .map(findLanguage)
+      .filter((language): language is string => !!language)
+  ),
+];
+
+/**
+ * Lower is better: audio matches rank by preference order, subtitle-only
+ * matches come after them, and streams without any preferred language last.
+ */
+export const getLanguageRank = (
+  languages: StreamLanguages,
+  preferred: string[]
+) => {
+  const audioIndex = preferred.findIndex((language) =>
+    languages.audio.includes(language)
+  );
+  if (audioIndex !== -1) return audioIndex;
+
+  const subtitleIndex = preferred.findIndex((language) =>
+    languages.subtitles.includes(language)
+  );
+  if (subtitleIndex !== -1) return preferred.length + subtitleIndex;
+
+  return 2 * preferred.length;
+};
+
+export const formatLanguages = (languages: StreamLanguages) => {
+  const flags = (names: string[]) =>
+    names.map((name) => getLanguageInfo(name)?.flag || name).join(" ");
+
+  return [
+    `🔊 ${[flags(languages.audio), languages.multi ? "🌐" : ""]
+      .filter(Boolean)
+      .join(" ")}`,
+    languages.subtitles.length ? `💬 ${flags(languages.subtitles)}` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
 };
@@ -0,0 +1,23 @@
+/** Runs at most `concurrency` of the passed tasks at a time */
+export const createLimiter = (concurrency: number) => {
+  let active = 0;
+  const queue: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>) => {
+    // A finished task hands its slot to the next waiter, so callers arriving
+    // before the waiter resumes can't take it
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = queue.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+};
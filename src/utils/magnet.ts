@@ -0,0 +1,28 @@
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const base32ToHex = (str: string) => {
+  let bits = "";
+  for (const char of str.toUpperCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) return undefined;
+    bits += value.toString(2).padStart(5, "0");
+  }
+
+  let hex = "";
+  for (let i = 0; i + 4 <= bits.length; i += 4) {
+    hex += parseInt(bits.slice(i, i + 4), 2).toString(16);
+  }
+  return hex;
+};
+
+export const isInfoHash = (str: string) => /^[a-f0-9]{40}$/i.test(str);
+
+export const getInfoHashFromMagnet = (magnet?: string) => {
+  const match = magnet?.match(/xt=urn:btih:([a-z0-9]+)/i);
+  if (!match) return undefined;
+
+  const hash = match[1];
+  if (isInfoHash(hash)) return hash.toLowerCase();
+  if (hash.length === 32) return base32ToHex(hash);
+  return undefined;
+};
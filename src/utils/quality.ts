@@ -1,83 +1,54 @@
-export const guessQuality = (name: string) => {
-  const split = name.replace(/\W/g, " ").toLowerCase().split(" ");
-
-  let score = 0;
-  const parts = [];
-
-  if (split.includes("2160p")) {
-    parts.push("4K");
-    score += 3000;
-  } else if (split.includes("1080p")) {
-    parts.push("1080p");
-    score += 2000;
-  } else if (split.includes("720p")) {
-    parts.push("720p");
-    score += 1000;
-  }
-
-  if (
-    (split.includes("dolby") && split.includes("vision")) ||
-    split.includes("dovi") ||
-    split.includes("dv")
-  ) {
-    parts.push("Dolby Vision");
-    score += 20;
-  } else if (split.includes("hdr")) {
-    parts.push("HDR");
-    score += 10;
-  }
-
-  if (
-    split.includes("bluray") ||
-    (split.includes("blu") && split.includes("ray")) ||
-    split.includes("bdrip") ||
-    split.includes("brrip")
-  ) {
+import {
+  HdrFormat,
+  ParsedRelease,
+  ReleaseFlag,
+  ReleaseSource,
+  Resolution,
+} from "./release.js";
+
+const camSources = [
+  ReleaseSource.Cam,
+  ReleaseSource.Telesync,
+  ReleaseSource.Telecine,
+  ReleaseSource.Screener,
+];
+
+export const isCamSource = (source?: ReleaseSource) =>
+  !!source && camSources.includes(source);
+
+/** Labels for the stream name, scores are up to the ranking profile */
+export const getQualityParts = (release: ParsedRelease) => {
+  const parts: string[] = [];
+
+  if (release.resolution === Resolution.UHD) parts.push("4K");
+  else if (release.resolution === Resolution.FHD) parts.push("1080p");
+  else if (release.resolution === Resolution.HD) parts.push("720p");
+
+  if (release.hdr.includes(HdrFormat.DolbyVision)) parts.push("Dolby Vision");
+  else if (release.hdr.length) parts.push("HDR");
+
+  if (release.source === ReleaseSource.BluRay) {
     parts.push("BluRay");
-    score += 500;
-
-    if (split.includes("remux")) {
-      parts.push("Remux");
-      score += 100;
-    }
+    if (release.flags.includes(ReleaseFlag.Remux)) parts.push("Remux");
   } else if (
-    split.includes("webrip") ||
-    split.includes("webdl") ||
-    split.includes("web")
+    release.source === ReleaseSource.WebDL ||
+    release.source === ReleaseSource.WebRip
   ) {
     parts.push("WEB");
-    score += 400;
-  } else if (split.includes("dvdrip")) {
+  } else if (release.source === ReleaseSource.DVD) {
     parts.push("DVD");
-    score += 300;
-  } else if (split.includes("hdtv")) {
+  } else if (release.source === ReleaseSource.HDTV) {
     parts.push("HDTV");
-    score += 200;
-  } else if (split.includes("sdtv")) {
-    parts.push("sdtv");
-    score += 100;
-  } else if (
-    split.includes("camrip") ||
-    split.includes("cam") ||
-    split.includes("hdcam") ||
-    split.includes("ts") ||
-    split.includes("hdts") ||
-    split.includes("tc") ||
-    split.includes("hdtc")
-  ) {
+  } else if (release.source === ReleaseSource.SDTV) {
+    parts.push("SDTV");
+  } else if (isCamSource(release.source)) {
     parts.push("CAM");
-    score -= 5000;
   }
 
-  if (split.includes("3d")) {
-    parts.push("3D");
-    score -= 1;
-  }
+  if (release.flags.includes(ReleaseFlag.ThreeD)) parts.push("3D");
 
-  if (parts.length === 0) {
-    parts.push("Unknown");
-    score = -Infinity;
-  }
-
-  return { quality: parts.join(" "), score };
+  return parts;
 };
+
+export const getQuality = (release: ParsedRelease) =>
+  getQualityParts(release).join(" ") || "Unknown";
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { ByteRange, parseRangeHeader } from "./range.js";
+
+const range = (start: number, end: number): ByteRange => ({ start, end });
+
+const manyRanges = (count: number) =>
+  `bytes=${Array.from({ length: count }, (_, i) => `${i * 10}-${i * 10 + 4}`)}`;
+
+describe("parseRangeHeader", () => {
+  const size = 1000;
+
+  const cases: [string, ByteRange[] | undefined][] = [
+    ["bytes=0-499", [range(0, 499)]],
+    ["bytes=500-", [range(500, 999)]],
+    ["bytes=500-5000", [range(500, 999)]],
+    ["bytes=0-0", [range(0, 0)]],
+    // Suffixes, e.g. for the MP4 moov atom at the end of the file
+    ["bytes=-200", [range(800, 999)]],
+    ["bytes=-5000", [range(0, 999)]],
+    ["bytes=-0", []],
+    // Overlapping and adjacent ranges are merged
+    ["bytes=0-99,50-149", [range(0, 149)]],
+    ["bytes=0-99,100-199", [range(0, 199)]],
+    ["bytes=500-599,0-99", [range(0, 99), range(500, 599)]],
+    ["bytes=0-99, 200-299", [range(0, 99), range(200, 299)]],
+    ["bytes=0-99,-100", [range(0, 99), range(900, 999)]],
+    // Unsatisfiable
+    ["bytes=1000-", []],
+    ["bytes=2000-2999", []],
+    ["bytes=2000-2999,0-9", [range(0, 9)]],
+    // Ignored, the whole file is sent
+    ["items=0-99", undefined],
+    ["bytes=", undefined],
+    ["bytes=-", undefined],
+    ["bytes=abc", undefined],
+    ["bytes=500-499", undefined],
+    ["bytes=0-99,x", undefined],
+    [
+      manyRanges(16),
+      Array.from({ length: 16 }, (_, i) => range(i * 10, i * 10 + 4)),
+    ],
+    [manyRanges(17), undefined],
+  ];
+
+  for (const [header, expected] of cases) {
+    test(header, () => {
+      assert.deepEqual(parseRangeHeader(header, size), expected);
+    });
+  }
+
+  test("suffix of an empty file", () => {
+    assert.deepEqual(parseRangeHeader("bytes=-100", 0), []);
+  });
+});
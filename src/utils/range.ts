@@ -0,0 +1,98 @@
+export interface ByteRange {
+  start: number;
+  /** Inclusive, like in Content-Range */
+  end: number;
+}
+
+/** Requests with more ranges than this get the whole file */
+const MAX_RANGES = 16;
+
+/** Overlapping and adjacent ranges are sent as one */
+const mergeRanges = (ranges: ByteRange[]) =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<ByteRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end + 1)
+        last.end = Math.max(last.end, range.end);
+      else merged.push({ ...range });
+      return merged;
+    }, []);
+
+/**
+ * Parses a Range header, e.g. "bytes=0-499", "bytes=500-" or "bytes=-500",
+ * the suffix players use to read the MP4 moov atom at the end of the file.
+ * Returns undefined if the header should be ignored, and an empty list if
+ * none of the ranges can be satisfied.
+ */
+export const parseRangeHeader = (header: string, size: number) => {
+  const [unit, value] = header.split("=");
+  if (unit.trim().toLowerCase() !== "bytes" || !value) return undefined;
+
+  const ranges: ByteRange[] = [];
+
+  for (const part of value.split(",")) {
+    const match = /^(\d*)-(\d*)$/.exec(part.trim());
+    if (!match || (!match[1] && !match[2])) return undefined;
+
+    const [, first, last] = match;
+
+    if (!first) {
+      const length = Number(last);
+      if (length > 0 && size > 0)
+        ranges.push({ start: Math.max(0, size - length), end: size - 1 });
+      continue;
+    }
+
+    const start = Number(first);
+    if (last && Number(last) < start) return undefined;
+    if (start >= size) continue;
+
+    ranges.push({
+      start,
+      end: last ? Math.min(Number(last), size - 1) : size - 1,
+    });
+  }
+
+  if (ranges.length > MAX_RANGES) return undefined;
+
+  return mergeRanges(ranges);
+};
+
+export const getContentRange = (range: ByteRange, size: number) =>
+  `bytes ${range.start}-${range.end}/${size}`;
+
+/** Headers of a part in a multipart/byteranges response */
+export const getMultipartHeader = (
+  boundary: string,
+  range: ByteRange,
+  size: number,
+  contentType: string
+) =>
+  [
+    `--${boundary}`,
+    `Content-Type: ${contentType}`,
+    `Content-Range: ${getContentRange(range, size)}`,
+    "",
+    "",
+  ].join("\r\n");
+
+export const getMultipartFooter = (boundary: string) => `--${boundary}--\r\n`;
+
+export const getMultipartLength = (
+  boundary: string,
+  ranges: ByteRange[],
+  size: number,
+  contentType: string
+) =>
+  ranges.reduce(
+    (length, range) =>
+      length +
+      Buffer.byteLength(
+        getMultipartHeader(boundary, range, size, contentType)
+      ) +
+      (range.end - range.start + 1) +
+      // CRLF after the part's data
+      2,
+    Buffer.byteLength(getMultipartFooter(boundary))
+  );
@@ -0,0 +1,181 @@
+import { StreamLanguages, getLanguageRank } from "./language.js";
+import { ParsedRelease } from "./release.js";
+
+/**
+ * Points added to a stream's score, keyed by the parsed value (see the enums
+ * in release.ts). "none" applies when the release name doesn't tell.
+ */
+type Weights = Record<string, number>;
+
+export interface RankingProfile {
+  name: string;
+  resolution: Weights;
+  source: Weights;
+  codec: Weights;
+  /** Only the best matching HDR format counts */
+  hdr: Weights;
+  /** Only the best matching audio codec counts */
+  audio: Weights;
+  flags: Weights;
+  /** Points for the most preferred language, less for the others */
+  language: number;
+  /** Points for releases matching the group, keyword or tracker allow lists */
+  allowed: number;
+  /** Points per GB, negative values prefer smaller files */
+  size: number;
+  /** Files above this size in GB get the oversize penalty */
+  maxSize?: number;
+  oversize?: number;
+  /** Points per doubling of the seeders */
+  seeds: number;
+}
+
+export interface RankedStream {
+  release: ParsedRelease;
+  languages: StreamLanguages;
+  allowReasons: string[];
+  size: number;
+  seeds: number;
+}
+
+const GB = 1024 ** 3;
+
+const baseProfile: RankingProfile = {
+  name: "Balanced",
+  resolution: { "2160p": 3000, "1080p": 2000, "720p": 1000, none: -5000 },
+  source: {
+    BluRay: 500,
+    "WEB-DL": 400,
+    WEBRip: 400,
+    DVD: 300,
+    HDTV: 200,
+    SDTV: 100,
+    SCR: -5000,
+    TC: -5000,
+    TS: -5000,
+    CAM: -5000,
+    // Common for anime and scene names like "Movie.2020.1080p.x264"
+    none: 0,
+  },
+  codec: {},
+  hdr: { DV: 20, "HDR10+": 10, HDR10: 10, HDR: 10, HLG: 10 },
+  audio: {},
+  flags: { REMUX: 100, "3D": -1 },
+  language: 100000,
+  allowed: 5000,
+  size: 0,
+  seeds: 0,
+};
+
+export const rankingPresets: Record<string, RankingProfile> = {
+  balanced: baseProfile,
+  "best-quality": {
+    ...baseProfile,
+    name: "Best quality regardless of size",
+    hdr: { DV: 300, "HDR10+": 250, HDR10: 200, HDR: 200, HLG: 100 },
+    audio: {
+      Atmos: 150,
+      TrueHD: 120,
+      "DTS:X": 120,
+      "DTS-HD MA": 100,
+      FLAC: 80,
+      LPCM: 80,
+      "DTS-HD": 60,
+      EAC3: 40,
+      DTS: 30,
+    },
+    flags: { REMUX: 800, PROPER: 20, REPACK: 20, "3D": -1000 },
+    size: 10,
+  },
+  "1080p-compact": {
+    ...baseProfile,
+    name: "Prefer 1080p x264 under 8 GB",
+    resolution: { "1080p": 3000, "720p": 2000, "2160p": 1500, none: -5000 },
+    codec: { "H.264": 300, HEVC: -200, AV1: -400 },
+    hdr: { DV: -300, "HDR10+": -200, HDR10: -200, HDR: -200, HLG: -200 },
+    flags: { REMUX: -500, "3D": -1000 },
+    size: -20,
+    maxSize: 8,
+    oversize: -3000,
+    seeds: 20,
+  },
+  "fast-start": {
+    ...baseProfile,
+    name: "Most seeded first",
+    resolution: { "2160p": 300, "1080p": 400, "720p": 200, none: -1000 },
+    source: { ...baseProfile.source, BluRay: 100, "WEB-DL": 100, WEBRip: 100 },
+    flags: { "3D": -1000 },
+    size: -5,
+    seeds: 500,
+  },
+};
+
+export const DEFAULT_RANKING = "balanced";
+
+const pick = (weights: Weights, value?: string) =>
+  weights[value ?? "none"] ?? 0;
+
+const best = (weights: Weights, values: string[]) =>
+  values.length ? Math.max(...values.map((value) => pick(weights, value))) : 0;
+
+/**
+ * A preset by id, with optional overrides given as JSON in the addon config,
+ * e.g. `{"base": "balanced", "maxSize": 8, "oversize": -5000}`.
+ */
+export const getRankingProfile = (
+  preset?: string,
+  custom?: string
+): RankingProfile => {
+  const base = rankingPresets[preset || ""] || rankingPresets[DEFAULT_RANKING];
+  if (!custom?.trim()) return base;
+
+  try {
+    const overrides = JSON.parse(custom);
+    const profile = rankingPresets[overrides.base] || base;
+    return {
+      ...profile,
+      ...overrides,
+      name: overrides.name || `${profile.name} (custom)`,
+      resolution: { ...profile.resolution, ...overrides.resolution },
+      source: { ...profile.source, ...overrides.source },
+      codec: { ...profile.codec, ...overrides.codec },
+      hdr: { ...profile.hdr, ...overrides.hdr },
+      audio: { ...profile.audio, ...overrides.audio },
+      flags: { ...profile.flags, ...overrides.flags },
+    };
+  } catch {
+    console.warn("Invalid custom ranking profile, using the preset");
+    return base;
+  }
+};
+
+export const getRankingScore = (
+  profile: RankingProfile,
+  stream: RankedStream,
+  preferredLanguages: string[]
+) => {
+  const { release } = stream;
+  const sizeGb = stream.size / GB;
+
+  let score =
+    pick(profile.resolution, release.resolution) +
+    pick(profile.source, release.source) +
+    pick(profile.codec, release.codec) +
+    best(profile.hdr, release.hdr) +
+    best(profile.audio, release.audio) +
+    release.flags.reduce((sum, flag) => sum + pick(profile.flags, flag), 0) +
+    profile.size * sizeGb +
+    profile.seeds * Math.log2(1 + stream.seeds);
+
+  if (profile.maxSize && sizeGb > profile.maxSize)
+    score += profile.oversize ?? 0;
+
+  if (stream.allowReasons.length) score += profile.allowed;
+
+  if (preferredLanguages.length) {
+    const rank = getLanguageRank(stream.languages, preferredLanguages);
+    score += profile.language * (1 - rank / (2 * preferredLanguages.length));
+  }
+
+  return score;
+};
@@ -0,0 +1,285 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  AudioCodec,
+  HdrFormat,
+  ParsedRelease,
+  ReleaseFlag,
+  ReleaseSource,
+  Resolution,
+  VideoCodec,
+  parseReleaseName,
+} from "./release.js";
+
+const range = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+type Case<K extends keyof ParsedRelease> = [string, ParsedRelease[K]];
+
+const testField = <K extends keyof ParsedRelease>(field: K, cases: Case<K>[]) =>
+  describe(field, () => {
+    for (const [name, expected] of cases) {
+      test(name, () => {
+        assert.deepEqual(parseReleaseName(name)[field], expected);
+      });
+    }
+  });
+
+testField("title", [
+  ["The.Matrix.1999.1080p.BluRay.x264-GROUP", "The Matrix"],
+  [
+    "Spider-Man.No.Way.Home.2021.2160p.WEB-DL.DDP5.1.HEVC-NOGRP",
+    "Spider-Man No Way Home",
+  ],
+  ["1917.2019.1080p.BluRay.x264-SPARKS", "1917"],
+  ["2012.2009.720p.BluRay.x264", "2012"],
+  [
+    "Blade.Runner.2049.2017.2160p.UHD.BluRay.REMUX.HDR.HEVC.Atmos-EPSiLON",
+    "Blade Runner 2049",
+  ],
+  [
+    "Marvels.Agents.of.S.H.I.E.L.D.S01E01.720p.HDTV.x264-KILLERS",
+    "Marvels Agents of S.H.I.E.L.D",
+  ],
+  ["Breaking.Bad.S05E14.1080p.WEB-DL.DD5.1.H.264-BS", "Breaking Bad"],
+  ["[SubsPlease] Jujutsu Kaisen - 24 (1080p) [ABCD1234].mkv", "Jujutsu Kaisen"],
+  ["The.Daily.Show.2024.03.14.720p.WEB.h264-EDITH", "The Daily Show"],
+  ["www.Torrenting.com - The.Office.US.S02E01.720p.WEB-DL", "The Office US"],
+  ["Mission.Impossible.s2.1080p.BluRay.x264", "Mission Impossible s2"],
+  [
+    "The.French.Connection.1971.1080p.BluRay.x264-AMIABLE",
+    "The French Connection",
+  ],
+  ["Movie.Without.Year.1080p.WEBRip.x265", "Movie Without Year"],
+  ["Friends.Complete.Series.1080p.BluRay.x265", "Friends"],
+]);
+
+testField("year", [
+  ["The.Matrix.1999.1080p.BluRay.x264-GROUP", 1999],
+  ["1917.2019.1080p.BluRay.x264-SPARKS", 2019],
+  ["Blade.Runner.2049.2017.2160p.UHD.BluRay.x265", 2017],
+  ["Dune (2021) [2160p] [4K] [WEB] [5.1]", 2021],
+  ["The.Daily.Show.2024.03.14.720p.WEB.h264-EDITH", undefined],
+  ["Breaking.Bad.S05E14.1080p.WEB-DL.DD5.1.H.264-BS", undefined],
+  ["2012.720p.BluRay.x264", undefined],
+]);
+
+testField("resolution", [
+  ["Dune.2021.2160p.WEB-DL.x265", Resolution.UHD],
+  ["Dune.2021.4K.HDR.WEB.x265", Resolution.UHD],
+  ["Dune.2021.UHD.BluRay.x265", Resolution.UHD],
+  ["Dune.2021.1080p.BluRay.x264", Resolution.FHD],
+  ["Dune.2021.1080i.HDTV.MPEG2", Resolution.FHD],
+  ["Dune.2021.1920x1080.WEB.x264", Resolution.FHD],
+  ["Dune.2021.720p.WEBRip.x264", Resolution.HD],
+  ["Dune.2021.576p.DVDRip.x264", Resolution.SD576],
+  ["Dune.2021.480p.WEB.x264", Resolution.SD],
+  ["Dune.2021.DVDRip.XviD", undefined],
+  ["Fahrenheit.451.1966.DVDRip.XviD", undefined],
+]);
+
+testField("source", [
+  ["Dune.2021.1080p.BluRay.x264", ReleaseSource.BluRay],
+  ["Dune.2021.1080p.Blu-ray.Remux.AVC", ReleaseSource.BluRay],
+  ["Dune.2021.720p.BDRip.x264", ReleaseSource.BluRay],
+  ["Dune.2021.720p.BRRip.x264", ReleaseSource.BluRay],
+  ["Dune.2021.2160p.UHD.BD.Remux", ReleaseSource.BluRay],
+  ["Dune.2021.1080p.WEB-DL.DDP5.1.H.264", ReleaseSource.WebDL],
+  ["Dune.2021.1080p.AMZN.WEB.H264", ReleaseSource.WebDL],
+  ["Dune.2021.1080p.WEBRip.x264", ReleaseSource.WebRip],
+  ["Dune.2021.1080p.WEB.Rip.x264", ReleaseSource.WebRip],
+  ["Show.S01E01.720p.HDTV.x264", ReleaseSource.HDTV],
+  ["Dune.2021.DVDRip.XviD", ReleaseSource.DVD],
+  ["Dune.2021.PAL.DVD9", ReleaseSource.DVD],
+  ["Show.S01E01.PDTV.XviD", ReleaseSource.SDTV],
+  ["Dune.2021.DVDSCR.XviD", ReleaseSource.Screener],
+  ["Dune.2021.720p.HDTC.x264", ReleaseSource.Telecine],
+  ["Dune.2021.HDTS.x264", ReleaseSource.Telesync],
+  ["Dune.2021.TELESYNC.x264", ReleaseSource.Telesync],
+  ["Dune.2021.CAMRip.x264", ReleaseSource.Cam],
+  ["Dune.2021.HDCAM.x264", ReleaseSource.Cam],
+  ["Movie.2020.1080p.x264-GROUP", undefined],
+  ["[SubsPlease] Jujutsu Kaisen - 24 (1080p) [ABCD1234].mkv", undefined],
+  // Only the tail is looked at, "Cam" is part of the title
+  ["Cam.2018.1080p.NF.WEB-DL.x264", ReleaseSource.WebDL],
+]);
+
+testField("codec", [
+  ["Dune.2021.1080p.BluRay.x264", VideoCodec.H264],
+  ["Dune.2021.1080p.WEB-DL.H.264", VideoCodec.H264],
+  ["Dune.2021.1080p.BluRay.AVC.Remux", VideoCodec.H264],
+  ["Dune.2021.2160p.WEB-DL.x265", VideoCodec.HEVC],
+  ["Dune.2021.2160p.WEB-DL.H265", VideoCodec.HEVC],
+  ["Dune.2021.2160p.BluRay.HEVC", VideoCodec.HEVC],
+  ["Dune.2021.1080p.WEB.AV1.Opus", VideoCodec.AV1],
+  ["Dune.2021.1080p.WEB.VP9", VideoCodec.VP9],
+  ["Dune.2021.DVDRip.XviD", VideoCodec.XviD],
+  ["Dune.2021.DVDRip.DivX", VideoCodec.XviD],
+  ["Dune.2021.1080i.HDTV.MPEG2", VideoCodec.MPEG2],
+  ["Dune.2021.1080p.WEB", undefined],
+]);
+
+testField("bitDepth", [
+  ["Dune.2021.2160p.WEB.x265.10bit", 10],
+  ["Dune.2021.2160p.WEB.x265.10-bit", 10],
+  ["[Group] Anime - 01 [1080p Hi10P]", 10],
+  ["Dune.2021.2160p.DV.12bit", 12],
+  ["Dune.2021.1080p.WEB.x264", undefined],
+]);
+
+testField("hdr", [
+  [
+    "Dune.2021.2160p.WEB-DL.DV.HDR.x265",
+    [HdrFormat.DolbyVision, HdrFormat.HDR],
+  ],
+  ["Dune.2021.2160p.WEB-DL.DoVi.x265", [HdrFormat.DolbyVision]],
+  ["Dune.2021.2160p.Dolby.Vision.x265", [HdrFormat.DolbyVision]],
+  ["Dune.2021.2160p.HDR10Plus.x265", [HdrFormat.HDR10Plus]],
+  ["Dune.2021.2160p.HDR10+.x265", [HdrFormat.HDR10Plus]],
+  ["Dune.2021.2160p.HDR10.x265", [HdrFormat.HDR10]],
+  ["Dune.2021.2160p.HDR.HDR10.x265", [HdrFormat.HDR10]],
+  ["Dune.2021.2160p.HDR.x265", [HdrFormat.HDR]],
+  ["Show.S01E01.2160p.HLG.x265", [HdrFormat.HLG]],
+  ["Dune.2021.1080p.WEB.x264", []],
+]);
+
+testField("audio", [
+  ["Dune.2021.2160p.TrueHD.Atmos.7.1", [AudioCodec.Atmos, AudioCodec.TrueHD]],
+  ["Dune.2021.1080p.DTS-HD.MA.5.1", [AudioCodec.DTSHDMA]],
+  ["Dune.2021.1080p.DTS-HD.5.1", [AudioCodec.DTSHD]],
+  ["Dune.2021.2160p.DTS-X.7.1", [AudioCodec.DTSX]],
+  ["Dune.2021.1080p.DTS.5.1", [AudioCodec.DTS]],
+  ["Dune.2021.1080p.DDP5.1.H.264", [AudioCodec.EAC3]],
+  ["Dune.2021.1080p.EAC3.5.1", [AudioCodec.EAC3]],
+  ["Dune.2021.1080p.DD5.1.H.264", [AudioCodec.AC3]],
+  ["Dune.2021.1080p.AC3.5.1", [AudioCodec.AC3]],
+  ["Dune.2021.1080p.AAC2.0.x264", [AudioCodec.AAC]],
+  ["Dune.2021.1080p.FLAC.x264", [AudioCodec.FLAC]],
+  ["Dune.2021.1080p.LPCM.2.0", [AudioCodec.LPCM]],
+  ["Dune.2021.1080p.AV1.Opus", [AudioCodec.Opus]],
+  ["Dune.2021.DVDRip.XviD.MP3", [AudioCodec.MP3]],
+  ["Dune.2021.1080p.WEB.x264", []],
+]);
+
+testField("channels", [
+  ["Dune.2021.2160p.TrueHD.Atmos.7.1", "7.1"],
+  ["Dune.2021.1080p.DDP5.1.H.264", "5.1"],
+  ["Dune.2021.1080p.AAC2.0.x264", "2.0"],
+  ["Dune (2021) [2160p] [4K] [WEB] [5.1]", "5.1"],
+  ["Dune.2021.1080p.WEB.x264", undefined],
+  // The H.264 isn't a channel layout
+  ["Dune.2021.1080p.WEB.H.264", undefined],
+]);
+
+testField("languages", [
+  ["Dune.2021.1080p.BluRay.x264.HUN.ENG", ["Hungarian", "English"]],
+  ["Dune.2021.1080p.WEB.German.DL", ["German"]],
+  ["Dune.2021.1080p.WEB.TRUEFRENCH.x264", ["French"]],
+  ["Dune.2021.1080p.WEB.ITA.ENG.x264", ["Italian", "English"]],
+  ["Dune.2021.1080p.WEB.Dublado.x264", ["Portuguese"]],
+  ["Dune.2021.1080p.WEB.x264.HUNSUB", []],
+  ["The.French.Connection.1971.1080p.BluRay.x264", []],
+]);
+
+testField("subtitles", [
+  ["Dune.2021.1080p.WEB.x264.HUNSUB", ["Hungarian"]],
+  ["Dune.2021.1080p.WEB.x264.Eng.Subs", ["English"]],
+  ["Dune.2021.1080p.WEB.x264.HUN.SUB", ["Hungarian"]],
+  ["Dune.2021.1080p.WEB.x264.magyar.felirat", ["Hungarian"]],
+  ["Dune.2021.1080p.WEB.x264.HUN", []],
+]);
+
+testField("group", [
+  ["The.Matrix.1999.1080p.BluRay.x264-GROUP", "GROUP"],
+  ["Dune.2021.1080p.WEB-DL.DDP5.1.H.264-NTb", "NTb"],
+  ["Dune.2021.1080p.WEB-DL.DDP5.1.H.264-NTb[rarbg]", "NTb"],
+  ["Dune.2021.1080p.BluRay.x264-SPARKS.mkv", "SPARKS"],
+  ["[SubsPlease] Jujutsu Kaisen - 24 (1080p) [ABCD1234].mkv", "SubsPlease"],
+  ["Spider-Man.2002.1080p.BluRay.x264", undefined],
+  ["Dune.2021.1080p.WEB-DL", undefined],
+  ["Dune.2021.1080p.BluRay.DTS-HD", undefined],
+  ["Show.S01-S05.1080p", undefined],
+  ["Show.S01-S05.1080p.BluRay.x264-GROUP", "GROUP"],
+  ["Show.S01E01-E03.720p", undefined],
+  ["Show.1x01-1x03.720p", undefined],
+  ["Show.S01E01.720p.HDTV.x264-KILLERS", "KILLERS"],
+]);
+
+testField("edition", [
+  ["Blade.Runner.1982.Final.Cut.1080p.BluRay.x264", "Final Cut"],
+  ["Aliens.1986.Directors.Cut.1080p.BluRay.x264", "Director's Cut"],
+  ["The.Hobbit.2012.EXTENDED.1080p.BluRay.x264", "Extended"],
+  ["Dune.2021.IMAX.2160p.WEB-DL.x265", "IMAX"],
+  ["Movie.2003.UNRATED.1080p.BluRay.x264", "Unrated"],
+  ["Extended.Stay.2010.1080p.WEB.x264", undefined],
+]);
+
+testField("date", [
+  ["The.Daily.Show.2024.03.14.720p.WEB.h264-EDITH", "2024-03-14"],
+  ["Jeopardy 2023-11-02 480p x264", "2023-11-02"],
+  ["The.Tonight.Show.2024.13.01.720p.WEB", undefined],
+  ["Dune.2021.1080p.WEB.x264", undefined],
+]);
+
+testField("flags", [
+  ["Dune.2021.1080p.WEB.x264.REPACK-GRP", [ReleaseFlag.Repack]],
+  ["Dune.2021.PROPER.1080p.WEB.x264", [ReleaseFlag.Proper]],
+  ["Dune.2021.2160p.BluRay.REMUX.HEVC", [ReleaseFlag.Remux]],
+  ["Avatar.2009.3D.HSBS.1080p.BluRay.x264", [ReleaseFlag.ThreeD]],
+  ["Dune.2021.1080p.WEB.x264.iNTERNAL", [ReleaseFlag.Internal]],
+  ["Dune.2021.720p.HC.WEBRip.x264", [ReleaseFlag.Hardsub]],
+  ["Dune.2021.MULTi.1080p.WEB.x264", [ReleaseFlag.Multi]],
+  ["[Group] Anime - 01 [Dual Audio][1080p]", [ReleaseFlag.DualAudio]],
+  ["Dune.2021.1080p.WEB.x264", []],
+]);
+
+describe("seasons and episodes", () => {
+  const cases: [string, Partial<ParsedRelease>][] = [
+    ["Show.S01E01.720p.HDTV", { seasons: [1], episodes: [1] }],
+    ["Show.S01E01E02.720p.HDTV", { seasons: [1], episodes: [1, 2] }],
+    ["Show.S01E01-E03.720p.HDTV", { seasons: [1], episodes: [1, 2, 3] }],
+    ["Show.S01E01-03.720p.HDTV", { seasons: [1], episodes: [1, 2, 3] }],
+    ["Show.S01.E05.720p.HDTV", { seasons: [1], episodes: [5] }],
+    ["Show.1x05.720p.HDTV", { seasons: [1], episodes: [5] }],
+    ["Show.1x05-1x06.720p.HDTV", { seasons: [1], episodes: [5, 6] }],
+    ["Show.S02.1080p.BluRay.x264", { seasons: [2], episodes: [] }],
+    ["Show.S01-S05.1080p.BluRay", { seasons: [1, 2, 3, 4, 5], episodes: [] }],
+    ["Show.S01-05.1080p.BluRay", { seasons: [1, 2, 3, 4, 5], episodes: [] }],
+    ["Show Season 2 1080p WEB", { seasons: [2], episodes: [] }],
+    ["Show Season 1-3 1080p WEB", { seasons: [1, 2, 3], episodes: [] }],
+    ["Show Seasons 1 to 3 1080p WEB", { seasons: [1, 2, 3], episodes: [] }],
+    ["Show 2nd Season 1080p WEB", { seasons: [2], episodes: [] }],
+    ["Show.S00E01.Pilot.720p.WEB", { seasons: [0], episodes: [1] }],
+    ["Show.Episode.5.720p.WEB", { seasons: [], episodes: [5] }],
+    // The x264 isn't season 26 episode 4
+    ["Movie.2020.1080p.x264", { seasons: [], episodes: [] }],
+    ["Mission.Impossible.s2.1080p.BluRay", { seasons: [], episodes: [] }],
+    ["Show.Complete.Series.1080p", { seasons: [], complete: true }],
+    ["Show.S01E01.Complete.1080p", { seasons: [1], complete: false }],
+    [
+      "[SubsPlease] Jujutsu Kaisen - 24 (1080p) [ABCD1234].mkv",
+      { seasons: [], episodes: [], absoluteEpisodes: [24] },
+    ],
+    [
+      "[Group] One Piece - 1071v2 [1080p].mkv",
+      { seasons: [], episodes: [], absoluteEpisodes: [1071] },
+    ],
+    [
+      "[Group] Show (01-12) [1080p]",
+      { seasons: [], episodes: [], absoluteEpisodes: range(1, 12) },
+    ],
+    [
+      "[Group] Show S2 - 05 [1080p]",
+      { seasons: [2], episodes: [5], absoluteEpisodes: [] },
+    ],
+    ["Show (2019-2020) 1080p", { absoluteEpisodes: [] }],
+  ];
+
+  for (const [name, expected] of cases) {
+    test(name, () => {
+      const release = parseReleaseName(name);
+      for (const [key, value] of Object.entries(expected))
+        assert.deepEqual(release[key as keyof ParsedRelease], value, key);
+    });
+  }
+});
@@ -0,0 +1,496 @@
+export enum Resolution {
+  UHD = "2160p",
+  FHD = "1080p",
+  HD = "720p",
+  SD576 = "576p",
+  SD = "480p",
+}
+
+export enum ReleaseSource {
+  BluRay = "BluRay",
+  WebDL = "WEB-DL",
+  WebRip = "WEBRip",
+  HDTV = "HDTV",
+  DVD = "DVD",
+  SDTV = "SDTV",
+  Screener = "SCR",
+  Telecine = "TC",
+  Telesync = "TS",
+  Cam = "CAM",
+}
+
+export enum VideoCodec {
+  H264 = "H.264",
+  HEVC = "HEVC",
+  AV1 = "AV1",
+  VP9 = "VP9",
+  XviD = "XviD",
+  MPEG2 = "MPEG-2",
+}
+
+export enum HdrFormat {
+  DolbyVision = "DV",
+  HDR10Plus = "HDR10+",
+  HDR10 = "HDR10",
+  HDR = "HDR",
+  HLG = "HLG",
+}
+
+export enum AudioCodec {
+  Atmos = "Atmos",
+  TrueHD = "TrueHD",
+  DTSX = "DTS:X",
+  DTSHDMA = "DTS-HD MA",
+  DTSHD = "DTS-HD",
+  DTS = "DTS",
+  EAC3 = "EAC3",
+  AC3 = "AC3",
+  AAC = "AAC",
+  FLAC = "FLAC",
+  LPCM = "LPCM",
+  Opus = "Opus",
+  MP3 = "MP3",
+}
+
+export enum ReleaseFlag {
+  Repack = "REPACK",
+  Proper = "PROPER",
+  Remux = "REMUX",
+  ThreeD = "3D",
+  Internal = "INTERNAL",
+  Hardsub = "HARDSUB",
+  Multi = "MULTI",
+  DualAudio = "DUAL",
+}
+
+export interface ParsedRelease {
+  title: string;
+  year?: number;
+  resolution?: Resolution;
+  source?: ReleaseSource;
+  codec?: VideoCodec;
+  bitDepth?: number;
+  hdr: HdrFormat[];
+  audio: AudioCodec[];
+  /** e.g. "5.1" */
+  channels?: string;
+  /** Audio language names, e.g. "Hungarian", in the order they appear */
+  languages: string[];
+  /** Subtitle languages, from tags like "HUNSUB" or "Eng.Subs" */
+  subtitles: string[];
+  group?: string;
+  edition?: string;
+  /** Air date of daily shows, e.g. "2024-03-14" */
+  date?: string;
+  seasons: number[];
+  episodes: number[];
+  /** Episodes counted from the start of the show, e.g. "Title - 137" */
+  absoluteEpisodes: number[];
+  /** Complete series or season pack without explicit season numbers */
+  complete: boolean;
+  flags: ReleaseFlag[];
+}
+
+type TokenTable<T> = [T, RegExp][];
+
+/** Tokens are delimited by anything but letters and digits */
+const token = (pattern: string) =>
+  new RegExp(`(?<![a-z0-9])(?:${pattern})(?![a-z0-9])`, "i");
+
+const resolutions: TokenTable<Resolution> = [
+  [Resolution.UHD, token("2160[pi]|4k|uhd|3840x2160")],
+  [Resolution.FHD, token("1080[pi]|1920x1080|fhd")],
+  [Resolution.HD, token("720p|1280x720")],
+  [Resolution.SD576, token("576[pi]")],
+  [Resolution.SD, token("480[pi]|640x480")],
+];
+
+/** Checked in order, the first match wins */
+const sources: TokenTable<ReleaseSource> = [
+  [
+    ReleaseSource.Screener,
+    token("(?:dvd|bd|web)?[ ._-]?scr(?:eener)?|dvdscreener"),
+  ],
+  [
+    ReleaseSource.BluRay,
+    token(
+      "blu[ ._-]?ray|bd[ ._-]?rip|br[ ._-]?rip|bd[ ._-]?remux|bd(?:25|50|66|100)|bdmv|uhd[ ._-]?bd"
+    ),
+  ],
+  [ReleaseSource.WebRip, token("web[ ._-]?rip")],
+  [ReleaseSource.WebDL, token("web[ ._-]?dl|web|amzn|nf|dsnp|hmax|atvp")],
+  [ReleaseSource.HDTV, token("hdtv|hdtvrip")],
+  [ReleaseSource.DVD, token("dvd[ ._-]?rip|dvd(?:[59]|r)?|ntsc|pal")],
+  [ReleaseSource.SDTV, token("sdtv|pdtv|tv[ ._-]?rip|dsr")],
+  [ReleaseSource.Telecine, token("(?:hd)?tc|telecine")],
+  [ReleaseSource.Telesync, token("(?:hd)?ts|telesync|pdvd")],
+  [ReleaseSource.Cam, token("(?:hd)?cam(?:[ ._-]?rip)?")],
+];
+
+const codecs: TokenTable<VideoCodec> = [
+  [VideoCodec.HEVC, token("[xh][ .]?265|hevc")],
+  [VideoCodec.H264, token("[xh][ .]?264|avc")],
+  [VideoCodec.AV1, token("av1")],
+  [VideoCodec.VP9, token("vp9")],
+  [VideoCodec.XviD, token("xvid|divx")],
+  [VideoCodec.MPEG2, token("mpeg[ .-]?2")],
+];
+
+const hdrFormats: TokenTable<HdrFormat> = [
+  [HdrFormat.DolbyVision, token("dolby[ ._-]?vision|dovi|dv")],
+  [HdrFormat.HDR10Plus, token("hdr10(?:\\+|plus)|hdr10p")],
+  [HdrFormat.HDR10, /(?<![a-z0-9])hdr10(?![a-z0-9+])/i],
+  [HdrFormat.HDR, token("hdr")],
+  [HdrFormat.HLG, token("hlg")],
+];
+
+const audioCodecs: TokenTable<AudioCodec> = [
+  [AudioCodec.Atmos, token("atmos")],
+  [AudioCodec.TrueHD, token("true[ .-]?hd")],
+  [AudioCodec.DTSX, token("dts[ .:-]?x")],
+  [AudioCodec.DTSHDMA, token("dts[ .-]?hd[ .-]?ma")],
+  [AudioCodec.DTSHD, token("dts[ .-]?hd(?![ .-]?ma)")],
+  [AudioCodec.DTS, /(?<![a-z0-9])dts(?![a-z])/i],
+  [
+    AudioCodec.EAC3,
+    token("e[ .-]?ac[ .-]?3|ddp|dd\\+|(?:ddp|dd\\+)[2-7][ .]?[01]"),
+  ],
+  [AudioCodec.AC3, /(?<![a-z0-9])(?:ac[ .-]?3|dd)(?![a-z+])/i],
+  [AudioCodec.AAC, token("aac(?:[2-7][ .]?[01])?")],
+  [AudioCodec.FLAC, token("flac")],
+  [AudioCodec.LPCM, token("l?pcm")],
+  [AudioCodec.Opus, token("opus")],
+  [AudioCodec.MP3, token("mp3")],
+];
+
+const bitDepths: TokenTable<number> = [
+  [12, token("12[ .-]?bits?")],
+  [10, token("10[ .-]?bits?|hi10p?")],
+  [8, token("8[ .-]?bits?")],
+];
+
+const editions: TokenTable<string> = [
+  ["Director's Cut", token("directors?'?s?[ ._-]?cut|dc")],
+  ["Extended", token("extended(?:[ ._-]?(?:cut|edition))?")],
+  ["Theatrical", token("theatrical(?:[ ._-]?cut)?")],
+  ["Unrated", token("unrated")],
+  ["Uncut", token("uncut")],
+  ["Final Cut", token("final[ ._-]?cut")],
+  ["Remastered", token("remastered|4k[ ._-]?remaster")],
+  ["IMAX", token("imax")],
+  ["Criterion", token("criterion")],
+  ["Special Edition", token("special[ ._-]?edition")],
+  ["Ultimate", token("ultimate[ ._-]?(?:cut|edition)")],
+];
+
+const flags: TokenTable<ReleaseFlag> = [
+  [ReleaseFlag.Repack, token("repack\\d?|rerip")],
+  [ReleaseFlag.Proper, token("proper")],
+  [ReleaseFlag.Remux, token("(?:bd)?remux")],
+  [ReleaseFlag.ThreeD, token("3d|h?sbs|half[ ._-]?(?:sbs|ou)|h-?ou")],
+  [ReleaseFlag.Internal, token("int(?:ernal)?")],
+  [ReleaseFlag.Hardsub, token("hc|hardsub(?:bed|s)?|korsub")],
+  [ReleaseFlag.Multi, token("multi(?:[ ._-]?(?:audio|lang|subs?))?")],
+  [ReleaseFlag.DualAudio, token("dual[ ._-]?audio|dual")],
+];
+
+const languagePatterns: [string, string][] = [
+  ["English", "eng|english"],
+  ["Hungarian", "hun|hungarian|magyar"],
+  ["German", "ger|german|deutsch|deu"],
+  ["French", "fre|french|fra|vff|vfq|vf2?|truefrench"],
+  ["Italian", "ita|italian"],
+  ["Spanish", "spa|spanish|esp|castellano|latino"],
+  ["Portuguese", "por|portuguese|pt[ .-]?br|dublado"],
+  ["Russian", "rus|russian"],
+  ["Polish", "pol|polish|pl|lektor"],
+  ["Czech", "cze|ces|czech|cz"],
+  ["Slovak", "slo|slk|slovak|sk"],
+  ["Romanian", "rum|ron|romanian"],
+  ["Dutch", "dut|nld|dutch"],
+  ["Swedish", "swe|swedish"],
+  ["Danish", "dan|danish"],
+  ["Norwegian", "nor|norwegian"],
+  ["Finnish", "fin|finnish"],
+  ["Turkish", "tur|turkish"],
+  ["Greek", "gre|ell|greek"],
+  ["Ukrainian", "ukr|ukrainian"],
+  ["Japanese", "jpn|jap|japanese"],
+  ["Korean", "kor|korean"],
+  ["Chinese", "chi|chn|zho|chinese|mandarin|cantonese"],
+  ["Hindi", "hin|hindi"],
+  ["Arabic", "ara|arabic"],
+  ["Hebrew", "heb|hebrew"],
+];
+
+const SUBTITLE = "[ ._-]?(?:subs?|subtitles?|feliratos|felirat)";
+
+export const languages: TokenTable<string> = languagePatterns.map(
+  ([language, pattern]) => [language, token(pattern)]
+);
+
+const subtitleLanguages: TokenTable<string> = languagePatterns.map(
+  ([language, pattern]) => [
+    language,
+    new RegExp(
+      `(?<![a-z0-9])(?:(?:${pattern})${SUBTITLE}|subs?[ ._-]?(?:${pattern}))(?![a-z0-9])`,
+      "i"
+    ),
+  ]
+);
+
+const findAll = <T>(table: TokenTable<T>, str: string) =>
+  table.filter(([, regex]) => regex.test(str)).map(([value]) => value);
+
+const findFirst = <T>(table: TokenTable<T>, str: string) =>
+  table.find(([, regex]) => regex.test(str))?.[0];
+
+const findIndex = (table: TokenTable<unknown>, str: string) =>
+  Math.min(
+    ...table.map(([, regex]) => str.search(regex)).filter((i) => i >= 0)
+  );
+
+const range = (from: number, to: number) => {
+  if (to < from || to - from > 100) return [from];
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+};
+
+const SEASON_EPISODE =
+  /(?<![a-z0-9])s(\d{1,2})[ ._-]?(e\d{1,4}(?:(?:-e?|[ ._]?e)\d{1,4})*)(?![a-z0-9])/gi;
+const CROSS_EPISODE =
+  /(?<![a-z0-9])(\d{1,2})x(?!26[45])(\d{2,3})(?:-(?:\d{1,2}x)?(\d{2,3}))?(?![a-z0-9])/gi;
+/** Bare seasons need two digits, "Mission.Impossible.s2" isn't a season pack */
+const SEASON_RANGE =
+  /(?<![a-z0-9])s(\d{2})(?:[ ._]*(?:-|to|&)[ ._]*s?(\d{1,2}))?(?![a-z0-9])/gi;
+const SEASON_WORD =
+  /(?<![a-z0-9])seasons?(?![ ._]-[ ._])[ ._-]*(\d{1,2})(?:[ ._]*(?:-|to|&)[ ._]*(\d{1,2}))?(?!\d)/gi;
+const SEASON_ORDINAL =
+  /(?<![a-z0-9])(\d{1,2})(?:st|nd|rd|th)[ ._-]season(?![a-z0-9])/gi;
+/** Short seasons only count before an anime episode number, "Title S2 - 05" */
+const SEASON_SHORT = /(?<![a-z0-9])s(\d)(?=[ ._]-[ ._]\d)/gi;
+const EPISODE_WORD =
+  /(?<![a-z0-9])(?:(?:episode|ep)[ ._-]?|e)(\d{1,4})(?:-(\d{1,4}))?(?![a-z0-9])/gi;
+/** Anime style "Title - 05v2 [1080p]", "Title - 01 ~ 12" or "Title (01-12)" */
+const ABSOLUTE_EPISODE =
+  /[ ._]-[ ._](\d{1,4})(?:v\d)?(?:[ ._]?[~-][ ._]?(\d{1,4})(?:v\d)?)?(?![a-z0-9.])|[([](\d{1,4})[ ._]?[~-][ ._]?(\d{1,4})[)\]]/gi;
+const COMPLETE = token("complete|integrale|collection");
+const DATE =
+  /(?<![a-z0-9])((?:19|20)\d{2})[ ._-](0[1-9]|1[0-2])[ ._-](0[1-9]|[12]\d|3[01])(?![a-z0-9])/i;
+const YEAR = /(?<![a-z0-9])[([]?((?:19[2-9]|20[0-4])\d)[)\]]?(?![a-z0-9])/gi;
+const VIDEO_EXTENSION = /\.(mkv|mp4|avi|m4v|mov|wmv|ts|m2ts|webm|mpg|mpeg)$/i;
+
+const parseEpisodes = (part: string) => {
+  const episodes: number[] = [];
+  for (const [, separator, episode] of part.matchAll(/(^|-e?|e)(\d+)/gi)) {
+    const last = episodes[episodes.length - 1];
+    if (separator.startsWith("-") && last !== undefined)
+      episodes.push(...range(last, Number(episode)).slice(1));
+    else episodes.push(Number(episode));
+  }
+  return episodes;
+};
+
+const parseSeasonsEpisodes = (str: string) => {
+  const seasons: number[] = [];
+  const episodes: number[] = [];
+  let index = Infinity;
+
+  const found = (match: RegExpMatchArray) => {
+    index = Math.min(index, match.index ?? Infinity);
+  };
+
+  for (const match of str.matchAll(SEASON_EPISODE)) {
+    found(match);
+    seasons.push(Number(match[1]));
+    episodes.push(...parseEpisodes(match[2].replace(/[ ._]/g, "")));
+  }
+
+  if (!seasons.length) {
+    for (const match of str.matchAll(CROSS_EPISODE)) {
+      found(match);
+      seasons.push(Number(match[1]));
+      episodes.push(...range(Number(match[2]), Number(match[3] || match[2])));
+    }
+  }
+
+  if (!seasons.length) {
+    for (const regex of [
+      SEASON_RANGE,
+      SEASON_WORD,
+      SEASON_ORDINAL,
+      SEASON_SHORT,
+    ]) {
+      for (const match of str.matchAll(regex)) {
+        found(match);
+        seasons.push(...range(Number(match[1]), Number(match[2] || match[1])));
+      }
+    }
+  }
+
+  if (!episodes.length) {
+    for (const match of str.matchAll(EPISODE_WORD)) {
+      found(match);
+      episodes.push(...range(Number(match[1]), Number(match[2] || match[1])));
+    }
+  }
+
+  const absoluteEpisodes: number[] = [];
+
+  if (!episodes.length) {
+    for (const match of str.matchAll(ABSOLUTE_EPISODE)) {
+      const from = Number(match[1] || match[3]);
+      const to = Number(match[2] || match[4] || from);
+      // "Title (2019-2020)" is a year range
+      if (/^(?:19|20)\d{2}$/.test(String(from))) continue;
+      found(match);
+      absoluteEpisodes.push(...range(from, to));
+    }
+  }
+
+  // "Title S2 - 05" numbers the episodes within the season
+  if (seasons.length && absoluteEpisodes.length)
+    episodes.push(...absoluteEpisodes.splice(0));
+
+  return {
+    seasons: [...new Set(seasons)].sort((a, b) => a - b),
+    episodes: [...new Set(episodes)].sort((a, b) => a - b),
+    absoluteEpisodes: [...new Set(absoluteEpisodes)].sort((a, b) => a - b),
+    index,
+  };
+};
+
+const parseYear = (str: string) => {
+  // A year at the very start is usually part of the title, e.g. "1917.2019"
+  const matches = [...str.matchAll(YEAR)].filter((match) => match.index);
+  const match = matches[matches.length - 1];
+  return match && { year: Number(match[1]), index: match.index! };
+};
+
+const parseGroup = (str: string, titleEnd: number) => {
+  const prefix = str.match(/^\[([^\]]+)\]/);
+  if (prefix) return prefix[1].trim();
+
+  const suffix = str
+    .replace(/(?:\[[^\]]*\]|\([^)]*\)|\s)+$/, "")
+    .match(/-([a-z0-9]+(?:[._][a-z0-9]+)?)$/i);
+  // A dash in the title isn't a group, e.g. "Spider-Man"
+  if (!suffix || suffix.index! < titleEnd) return undefined;
+
+  // Don't mistake the end of e.g. "WEB-DL" or "DTS-HD" for a group
+  const group = suffix[1];
+  if (/^(dl|hd|ma|rip|x|sbs|ou|\d+)$/i.test(group)) return undefined;
+  // Nor of ranges like "S01-S05.1080p" or "E01-E03.720p"
+  const isReleaseToken = (part: string) =>
+    /^(?:s\d+(?:e\d+)?|e\d+|\d+x\d+|\d{3,4}[pi]|\d+)$/i.test(part);
+  if (group.split(/[._]/).some(isReleaseToken)) return undefined;
+  return group;
+};
+
+const cleanTitle = (title: string) =>
+  title
+    .replace(/^(?:\[[^\]]*\]|www\.\S+\s*-?)\s*/i, "")
+    .replace(/[._]/g, " ")
+    // Put the dots back in abbreviations, e.g. "S.H.I.E.L.D."
+    .replace(/\b(?:[a-z] ){2,}[a-z]\b/gi, (abbr) => abbr.replace(/ /g, "."))
+    .replace(/[([{\s-]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/** Drops the generic format if a more specific one was found too */
+const without = <T>(list: T[], generic: T, specific: T[]) =>
+  specific.some((value) => list.includes(value))
+    ? list.filter((value) => value !== generic)
+    : list;
+
+/**
+ * Splits a torrent or file name into its parts. Everything after the title is
+ * only looked at for tokens that would otherwise match words in titles, like
+ * languages ("The French Connection") or editions.
+ */
+export const parseReleaseName = (name: string): ParsedRelease => {
+  const str = name.trim().replace(VIDEO_EXTENSION, "");
+
+  const episodeInfo = parseSeasonsEpisodes(str);
+  const date = str.match(DATE);
+  // The year of an air date isn't the release year
+  const yearInfo = parseYear(
+    str.replace(DATE, (match) => " ".repeat(match.length))
+  );
+
+  // The title ends at the year, date or episode number, or failing that at
+  // the first token that can't be a part of it
+  const complete = str.search(COMPLETE);
+  const titleEnd = Math.min(
+    episodeInfo.index,
+    yearInfo?.index ?? Infinity,
+    date?.index ?? Infinity
+  );
+  const fallbackEnd = Math.min(
+    findIndex(resolutions, str),
+    findIndex(sources, str),
+    findIndex(codecs, str),
+    complete >= 0 ? complete : Infinity
+  );
+  const end = Number.isFinite(titleEnd) ? titleEnd : fallbackEnd;
+
+  let title = cleanTitle(str.slice(0, end));
+  let year = yearInfo?.year;
+
+  if (!title && yearInfo) {
+    title = cleanTitle(str.slice(0, yearInfo.index + 4));
+    year = undefined;
+  }
+
+  if (!title) title = cleanTitle(str);
+
+  const tail = Number.isFinite(end) ? str.slice(end) : "";
+
+  const channels = tail.match(
+    /(?<![0-9])(?<![0-9][ .])([2-7])[ .]([01])(?:ch)?(?![0-9p])/i
+  );
+
+  // Subtitle tags are taken out first so "HUN.SUB" isn't an audio language
+  const subtitles = findAll(subtitleLanguages, tail);
+  const audioTail = subtitleLanguages.reduce(
+    (str, [, regex]) => str.replace(new RegExp(regex, "gi"), " "),
+    tail
+  );
+
+  const languageMatches = languages
+    .map(([language, regex]) => ({ language, index: audioTail.search(regex) }))
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index);
+
+  return {
+    title,
+    year,
+    resolution: findFirst(resolutions, str),
+    source: findFirst(sources, tail),
+    codec: findFirst(codecs, str),
+    bitDepth: findFirst(bitDepths, tail),
+    hdr: without(findAll(hdrFormats, tail), HdrFormat.HDR, [
+      HdrFormat.HDR10,
+      HdrFormat.HDR10Plus,
+    ]),
+    audio: without(
+      without(findAll(audioCodecs, tail), AudioCodec.DTS, [
+        AudioCodec.DTSX,
+        AudioCodec.DTSHDMA,
+        AudioCodec.DTSHD,
+      ]),
+      AudioCodec.AC3,
+      [AudioCodec.EAC3]
+    ),
+    channels: channels ? `${channels[1]}.${channels[2]}` : undefined,
+    languages: languageMatches.map(({ language }) => language),
+    subtitles,
+    group: parseGroup(str, end),
+    edition: findFirst(editions, tail),
+    date: date ? `${date[1]}-${date[2]}-${date[3]}` : undefined,
+    seasons: episodeInfo.seasons,
+    episodes: episodeInfo.episodes,
+    absoluteEpisodes: episodeInfo.absoluteEpisodes,
+    complete: complete >= 0 && !episodeInfo.episodes.length,
+    flags: findAll(flags, tail),
+  };
+};
@@ -0,0 +1,28 @@
+import crypto from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { DATA_DIR } from "./data.js";
+
+const SECRETS_DIR = path.join(DATA_DIR, "secrets");
+
+/**
+ * Returns the secret from the given environment variable, or a random one
+ * generated on first use and kept in DATA_DIR, so it survives restarts.
+ * `onGenerated` is only called on that first use.
+ */
+export const getSecret = (
+  envName: string,
+  onGenerated?: (secret: string, secretPath: string) => void
+) => {
+  const secret = process.env[envName];
+  if (secret) return secret;
+
+  const secretPath = path.join(SECRETS_DIR, envName.toLowerCase());
+
+  if (fs.existsSync(secretPath)) return fs.readFileSync(secretPath, "utf-8");
+
+  const generated = crypto.randomBytes(32).toString("hex");
+  fs.outputFileSync(secretPath, generated, { mode: 0o600 });
+  onGenerated?.(generated, secretPath);
+  return generated;
+};
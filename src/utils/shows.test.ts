@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { parseReleaseName } from "./release.js";
+import {
+  EpisodeQuery,
+  FileEpisodeInfo,
+  getFileEpisodeInfo,
+  isFileNameMatch,
+  isTorrentNameMatch,
+} from "./shows.js";
+
+const episode = (
+  season: number,
+  episode: number,
+  extra?: Partial<EpisodeQuery>
+): EpisodeQuery => ({ season, episode, ...extra });
+
+describe("isTorrentNameMatch", () => {
+  const cases: [string, EpisodeQuery, boolean][] = [
+    ["Show.S01E01.720p.HDTV", episode(1, 1), true],
+    ["Show.S01E01.720p.HDTV", episode(1, 2), false],
+    ["Show.S01E01E02.720p.HDTV", episode(1, 2), true],
+    ["Show.S01E01E02.720p.HDTV", episode(1, 3), false],
+    ["Show.S01E01-E03.720p.HDTV", episode(1, 2), true],
+    ["Show.S01E01-E03.720p.HDTV", episode(1, 3), true],
+    ["Show.S01E01-E03.720p.HDTV", episode(1, 4), false],
+    ["Show.1x05.720p.HDTV", episode(1, 5), true],
+    ["Show.S02.1080p.BluRay", episode(2, 7), true],
+    ["Show.S02.1080p.BluRay", episode(3, 1), false],
+    ["Show.S01-S05.1080p.BluRay", episode(3, 4), true],
+    ["Show.S01-S05.1080p.BluRay", episode(6, 1), false],
+    ["Show Season 1-3 1080p WEB", episode(2, 10), true],
+    ["Show Season 1-3 1080p WEB", episode(4, 1), false],
+    ["Show.Complete.Series.1080p.BluRay", episode(4, 1), true],
+    [
+      "The.Daily.Show.2024.03.14.720p.WEB",
+      episode(29, 60, { airDate: "2024-03-14" }),
+      true,
+    ],
+    // Released late in the evening, a day off from the UTC air date
+    [
+      "The.Daily.Show.2024.03.14.720p.WEB",
+      episode(29, 60, { airDate: "2024-03-15" }),
+      true,
+    ],
+    [
+      "The.Daily.Show.2024.03.14.720p.WEB",
+      episode(29, 61, { airDate: "2024-03-18" }),
+      false,
+    ],
+    ["The.Daily.Show.2024.03.14.720p.WEB", episode(29, 60), false],
+    ["Show.S00E01.Pilot.720p.WEB", episode(0, 1), true],
+    ["Show.S00E01.Pilot.720p.WEB", episode(1, 1), false],
+    ["Show.Specials.720p.WEB", episode(0, 3), true],
+    ["Show.S01E01.720p.HDTV", episode(0, 1), false],
+    ["[Group] Show - 13 [1080p]", episode(2, 1, { absoluteEpisode: 13 }), true],
+    ["[Group] Show - 13 [1080p]", episode(1, 13), true],
+    ["[Group] Show - 13 [1080p]", episode(2, 1), false],
+  ];
+
+  for (const [name, query, expected] of cases) {
+    test(`${name} ${JSON.stringify(query)}`, () => {
+      assert.equal(isTorrentNameMatch(parseReleaseName(name), query), expected);
+    });
+  }
+});
+
+describe("getFileEpisodeInfo", () => {
+  const cases: [string, Partial<FileEpisodeInfo>][] = [
+    ["Show.S01E01.720p.mkv", { seasons: [1], episodes: [1] }],
+    ["Show.S01E01E02.720p.mkv", { seasons: [1], episodes: [1, 2] }],
+    ["Show.S01E01-E03.720p.mkv", { seasons: [1], episodes: [1, 2, 3] }],
+    ["Show/Season 2/03.mkv", { seasons: [2], episodes: [3] }],
+    ["Show/Season 2/Episode 03.mkv", { seasons: [2], episodes: [3] }],
+    ["Show/S03/E07 - Title.mkv", { seasons: [3], episodes: [7] }],
+    ["Show\\Season 4\\05 - Title.mkv", { seasons: [4], episodes: [5] }],
+    ["Show/Specials/01 - Christmas.mkv", { seasons: [0], episodes: [1] }],
+    ["Show/Season 2/Show.S01E05.mkv", { seasons: [1], episodes: [5] }],
+    [
+      "Show/Season 1/The.Daily.Show.2024.03.14.mkv",
+      { seasons: [], episodes: [], date: "2024-03-14" },
+    ],
+    [
+      "Show/Season 2/[Group] Show - 14 [1080p].mkv",
+      { seasons: [2], episodes: [], absoluteEpisodes: [14] },
+    ],
+    ["Show/Movie.2020.1080p.mkv", { seasons: [], episodes: [] }],
+  ];
+
+  for (const [path, expected] of cases) {
+    test(path, () => {
+      const info = getFileEpisodeInfo(path);
+      for (const [key, value] of Object.entries(expected))
+        assert.deepEqual(info[key as keyof FileEpisodeInfo], value, key);
+    });
+  }
+});
+
+describe("isFileNameMatch", () => {
+  const cases: [string, EpisodeQuery, boolean][] = [
+    ["Show.S01E01.720p.mkv", episode(1, 1), true],
+    ["Show.S01E01.720p.mkv", episode(1, 2), false],
+    ["Show.S01E01E02.720p.mkv", episode(1, 2), true],
+    ["Show.S01E01-E03.720p.mkv", episode(1, 3), true],
+    ["Show.S01E01-E03.720p.mkv", episode(2, 3), false],
+    ["Show.S01-S05/Season 3/Show.S03E04.mkv", episode(3, 4), true],
+    ["Show.S01-S05/Season 3/Show.S03E04.mkv", episode(1, 4), false],
+    ["Show Season 1-3/Season 2/03.mkv", episode(2, 3), true],
+    ["Show Season 1-3/Season 2/03.mkv", episode(3, 3), false],
+    [
+      "Show/The.Daily.Show.2024.03.14.mkv",
+      episode(29, 60, { airDate: "2024-03-14" }),
+      true,
+    ],
+    [
+      "Show/The.Daily.Show.2024.03.14.mkv",
+      episode(29, 61, { airDate: "2024-03-21" }),
+      false,
+    ],
+    ["Show/Specials/01 - Christmas.mkv", episode(0, 1), true],
+    ["Show/Specials/01 - Christmas.mkv", episode(1, 1), false],
+    ["Show.S00E02.Special.mkv", episode(0, 2), true],
+    // Season 0 used to match every file
+    ["Show.S01E02.mkv", episode(0, 2), false],
+    ["Show/Extras/Interview.mkv", episode(0, 1), false],
+    [
+      "Show/Season 2/[Group] Show - 14 [1080p].mkv",
+      episode(2, 1, { absoluteEpisode: 14 }),
+      true,
+    ],
+    // Episodes in a season folder may count from the start of the season
+    ["Show/Season 2/[Group] Show - 01 [1080p].mkv", episode(2, 1), true],
+  ];
+
+  for (const [path, query, expected] of cases) {
+    test(`${path} ${JSON.stringify(query)}`, () => {
+      assert.equal(isFileNameMatch(getFileEpisodeInfo(path), query), expected);
+    });
+  }
+});
@@ -1,56 +1,110 @@
-export const guessSeasonEpisode = (name: string) => {
-  const str = name.replace(/\W/g, " ").toLowerCase();
-
-  const seasonMatch = [...str.matchAll(/[s](?<season>\d+)/g)];
-  const episodeMatch = str.match(/[e](?<episode>\d+)/);
-
-  if (seasonMatch.length === 0 && str.includes("complete")) {
-    return { completeSeries: true };
-  } else if (seasonMatch.length === 1 && !episodeMatch) {
-    const season = Number(seasonMatch[0].groups?.season) || 0;
-    return { seasons: [season] };
-  } else if (seasonMatch.length > 1) {
-    const firstSeason = Number(seasonMatch[0].groups?.season) || 0;
-    const lastSeason =
-      Number(seasonMatch[seasonMatch.length - 1].groups?.season) || 0;
-    const seasons = [];
-    for (let i = firstSeason; i <= lastSeason; i++) seasons.push(i);
-    return { seasons };
-  } else if (seasonMatch[0] || episodeMatch) {
-    const season = Number(seasonMatch[0]?.groups?.season) || undefined;
-    const episode = Number(episodeMatch?.groups?.episode) || undefined;
-    return { season, episode };
-  } else {
-    const seasonEpisodeMatch = str.match(/(?<season>\d+)x(?<episode>\d+)/);
-    const season = Number(seasonEpisodeMatch?.groups?.season) || undefined;
-    const episode = Number(seasonEpisodeMatch?.groups?.episode) || undefined;
-    return { season, episode };
+import { ParsedRelease, parseReleaseName } from "./release.js";
+
+export interface FileEpisodeInfo {
+  seasons: number[];
+  episodes: number[];
+  absoluteEpisodes: number[];
+  date?: string;
+}
+
+/** The requested episode, as far as the metadata tells */
+export interface EpisodeQuery {
+  season: number;
+  episode: number;
+  /** Episode number counted from the start of the show, for anime releases */
+  absoluteEpisode?: number;
+  /** Air date of daily shows, e.g. "2024-03-14" */
+  airDate?: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Air dates are in UTC, release names in local time, allow a day either way */
+const isSameAirDate = (date: string, airDate?: string) =>
+  !!airDate &&
+  Math.abs(new Date(date).getTime() - new Date(airDate).getTime()) <= DAY;
+
+/** e.g. "Season 2", "S02" or "Specials" */
+const getFolderSeason = (folder: string) => {
+  if (/^(?:specials?|extras?[ ._-]?episodes?)$/i.test(folder.trim())) return 0;
+  const { seasons } = parseReleaseName(folder);
+  return seasons.length === 1 ? seasons[0] : undefined;
+};
+
+/** Extras and samples are never the episode or movie itself */
+export const isExtraFile = (path: string) =>
+  /(?<![a-z0-9])(?:sample|trailer|featurettes?|extras|behind[ ._-]the[ ._-]scenes|deleted[ ._-]scenes)(?![a-z0-9])/i.test(
+    path
+  );
+
+/**
+ * Season and episode of a file in a torrent, falling back to the folders for
+ * the season and to a leading number for the episode, e.g. "Season 2/03.mkv".
+ */
+export const getFileEpisodeInfo = (path: string): FileEpisodeInfo => {
+  const folders = path.split(/[/\\]/);
+  const name = folders.pop() || "";
+  const release = parseReleaseName(name);
+
+  let seasons = release.seasons;
+  let episodes = release.episodes;
+
+  if (!seasons.length && !release.date) {
+    const season = folders
+      .reverse()
+      .map(getFolderSeason)
+      .find((season) => season !== undefined);
+    if (season !== undefined) seasons = [season];
+  }
+
+  if (seasons.length && !episodes.length) {
+    const episode = name.match(/^(?:ep?|episode)?[ ._-]*(\d{1,3})(?!\d)/i);
+    if (episode) episodes = [Number(episode[1])];
   }
+
+  return {
+    seasons,
+    episodes,
+    absoluteEpisodes: release.absoluteEpisodes,
+    date: release.date,
+  };
 };
 
+/** Without a known absolute number, only the first season can match */
+const isAbsoluteMatch = (absoluteEpisodes: number[], query: EpisodeQuery) =>
+  query.absoluteEpisode !== undefined
+    ? absoluteEpisodes.includes(query.absoluteEpisode)
+    : query.season === 1 && absoluteEpisodes.includes(query.episode);
+
 export const isTorrentNameMatch = (
-  name: string,
-  season: number,
-  episode: number
+  release: ParsedRelease,
+  query: EpisodeQuery
 ) => {
-  const guess = guessSeasonEpisode(name);
-  if (guess.completeSeries) return true;
-  if (guess.seasons?.includes(season)) return true;
-  if (guess.season === season && guess.episode === episode) return true;
+  const { season, episode, airDate } = query;
+  const { seasons, episodes } = release;
+  if (release.date) return isSameAirDate(release.date, airDate);
+  if (release.absoluteEpisodes.length && !seasons.length)
+    return isAbsoluteMatch(release.absoluteEpisodes, query);
+  if (release.complete && !seasons.length) return true;
+  if (seasons.includes(season) && !episodes.length) return true;
+  if (seasons.includes(season) && episodes.includes(episode)) return true;
   if (season === 0) {
-    if (name.toLowerCase().includes("special")) return true;
-    if (guess.season === undefined && guess.seasons === undefined) return true;
+    if (release.title.toLowerCase().includes("special")) return true;
+    if (!seasons.length) return true;
   }
   return false;
 };
 
-export const isFileNameMatch = (
-  name: string,
-  season: number,
-  episode: number
-) => {
-  const guess = guessSeasonEpisode(name);
-  if (guess.season === season && guess.episode === episode) return true;
-  if (season === 0) return true;
-  return false;
+export const isFileNameMatch = (info: FileEpisodeInfo, query: EpisodeQuery) => {
+  if (info.date) return isSameAirDate(info.date, query.airDate);
+  // In a season folder the number may count from the start of the season too
+  if (info.absoluteEpisodes.length && !info.episodes.length)
+    return (
+      isAbsoluteMatch(info.absoluteEpisodes, query) ||
+      (info.seasons.includes(query.season) &&
+        info.absoluteEpisodes.includes(query.episode))
+    );
+  return (
+    info.seasons.includes(query.season) && info.episodes.includes(query.episode)
+  );
 };
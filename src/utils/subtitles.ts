@@ -0,0 +1,300 @@
+import { getFileEpisodeInfo } from "./shows.js";
+
+export enum SubtitleFormat {
+  SRT = "srt",
+  /** MicroDVD ("{1}{50}Text") or SubViewer ("00:00:01.00,00:00:02.00") */
+  SUB = "sub",
+  ASS = "ass",
+  VTT = "vtt",
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** MicroDVD files without a frame rate line are mostly 23.976 fps */
+const DEFAULT_FPS = 23.976;
+
+/** Legacy Windows code pages subtitles were written in before UTF-8 */
+const languageEncodings: Record<string, string> = {
+  Hungarian: "windows-1250",
+  Czech: "windows-1250",
+  Slovak: "windows-1250",
+  Polish: "windows-1250",
+  Romanian: "windows-1250",
+  Russian: "windows-1251",
+  Ukrainian: "windows-1251",
+  Greek: "windows-1253",
+  Turkish: "windows-1254",
+  Hebrew: "windows-1255",
+  Arabic: "windows-1256",
+};
+
+/**
+ * Bytes that are letters in windows-1250 but rarely used in windows-1252,
+ * e.g. 0xF5 and 0xFB are "ő" and "ű" instead of "õ" and "û".
+ */
+const CENTRAL_EUROPEAN_BYTES = new Set([
+  0x8d, 0x8f, 0x9d, 0x9f, 0xa5, 0xb3, 0xb9, 0xd5, 0xdb, 0xf5, 0xfb,
+]);
+
+export const getSubtitleFormat = (fileName: string) => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "ssa") return SubtitleFormat.ASS;
+  return Object.values(SubtitleFormat).find((format) => format === extension);
+};
+
+const guessEncoding = (buffer: Buffer, language?: string) => {
+  if (language && languageEncodings[language])
+    return languageEncodings[language];
+
+  let letters = 0;
+  let highBytes = 0;
+  let centralEuropean = 0;
+
+  for (const byte of buffer) {
+    if (byte >= 0x80) highBytes++;
+    if (byte >= 0x80 || /[a-z]/i.test(String.fromCharCode(byte))) letters++;
+    if (CENTRAL_EUROPEAN_BYTES.has(byte)) centralEuropean++;
+  }
+
+  // Cyrillic text is written almost entirely with high bytes
+  if (letters && highBytes / letters > 0.3) return "windows-1251";
+  if (centralEuropean) return "windows-1250";
+  return "windows-1252";
+};
+
+/** UTF-8 and UTF-16 are told by their BOM or validity, the rest is a guess */
+export const decodeSubtitle = (buffer: Buffer, language?: string) => {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe)
+    return new TextDecoder("utf-16le").decode(buffer);
+  if (buffer[0] === 0xfe && buffer[1] === 0xff)
+    return new TextDecoder("utf-16be").decode(buffer);
+
+  try {
+    // Strips the UTF-8 BOM too
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder(guessEncoding(buffer, language)).decode(buffer);
+  }
+};
+
+const pad = (value: number, length = 2) =>
+  String(Math.floor(value)).padStart(length, "0");
+
+const formatTime = (ms: number) =>
+  `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+
+/** e.g. "0:01:02,5", "00:01:02.50" or "00:01:02,500" */
+const parseTime = (value: string) => {
+  const match = value
+    .trim()
+    .match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,:](\d{1,3}))?$/);
+  if (!match) return undefined;
+
+  const [, hours, minutes, seconds, fraction = "0"] = match;
+  return (
+    (Number(hours || 0) * 3600 + Number(minutes) * 60 + Number(seconds)) *
+      1000 +
+    Math.round(Number(`0.${fraction}`) * 1000)
+  );
+};
+
+/** Drops ASS override tags like "{\an8}" and "{\i1}" SRT files borrow */
+const cleanText = (text: string) =>
+  text
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/\\N/gi, "\n")
+    .replace(/\\h/g, " ")
+    // WebVTT only knows <b>, <i> and <u>
+    .replace(/<\/?font[^>]*>/gi, "")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+
+const parseSrt = (text: string) => {
+  const cues: Cue[] = [];
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const lines = block.trim().split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+
+    const [start, end] = lines[timingIndex]
+      .split("-->")
+      // VTT cue settings follow the end time
+      .map((time) => parseTime(time.trim().split(/\s+/)[0]));
+    if (start === undefined || end === undefined) continue;
+
+    cues.push({
+      start,
+      end,
+      text: cleanText(lines.slice(timingIndex + 1).join("\n")),
+    });
+  }
+
+  return cues;
+};
+
+const parseSub = (text: string) => {
+  const lines = text.split("\n").map((line) => line.trim());
+  const cues: Cue[] = [];
+
+  // MicroDVD, the first line may set the frame rate, e.g. "{1}{1}25.000"
+  const microDvd = /^\{(\d+)\}\{(\d*)\}(.*)$/;
+  if (lines.some((line) => microDvd.test(line))) {
+    let fps = DEFAULT_FPS;
+
+    for (const line of lines) {
+      const match = line.match(microDvd);
+      if (!match) continue;
+
+      const [, startFrame, endFrame, body] = match;
+      if (startFrame === "1" && endFrame === "1" && Number(body) > 0) {
+        fps = Number(body);
+        continue;
+      }
+
+      const start = (Number(startFrame) / fps) * 1000;
+      cues.push({
+        start,
+        end: endFrame ? (Number(endFrame) / fps) * 1000 : start + 3000,
+        text: cleanText(body.replace(/\{[^}]*\}/g, "").replace(/\|/g, "\n")),
+      });
+    }
+
+    return cues;
+  }
+
+  // SubViewer 2.0, the time line is followed by the text
+  for (let i = 0; i < lines.length; i++) {
+    const [start, end] = lines[i].split(",").map(parseTime);
+    if (start === undefined || end === undefined || !lines[i + 1]) continue;
+
+    cues.push({
+      start,
+      end,
+      text: cleanText(lines[i + 1].replace(/\[br\]/gi, "\n")),
+    });
+    i++;
+  }
+
+  return cues;
+};
+
+const parseAss = (text: string) => {
+  const cues: Cue[] = [];
+  let fields: string[] = [];
+  let inEvents = false;
+
+  for (const line of text.split("\n")) {
+    if (/^\[.*\]$/.test(line.trim())) {
+      inEvents = /^\[events\]$/i.test(line.trim());
+      continue;
+    }
+    if (!inEvents) continue;
+
+    const [, key, value] = line.match(/^(\w+):\s*(.*)$/) || [];
+    if (key === "Format") {
+      fields = value.split(",").map((field) => field.trim().toLowerCase());
+      continue;
+    }
+    if (key !== "Dialogue" || !fields.length) continue;
+
+    // The text is the last field and may contain commas itself
+    const values = value.split(",");
+    const textValue = values.splice(fields.length - 1).join(",");
+    const field = (name: string) => values[fields.indexOf(name)];
+
+    const start = parseTime(field("start"));
+    const end = parseTime(field("end"));
+    if (start === undefined || end === undefined) continue;
+
+    cues.push({ start, end, text: cleanText(textValue) });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+export const convertToVtt = (text: string, format: SubtitleFormat) => {
+  const normalized = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+  const cues =
+    format === SubtitleFormat.ASS
+      ? parseAss(normalized)
+      : format === SubtitleFormat.SUB
+        ? parseSub(normalized)
+        : parseSrt(normalized);
+
+  return [
+    "WEBVTT",
+    ...cues
+      .filter((cue) => cue.text)
+      .map(
+        (cue) =>
+          `${formatTime(cue.start)} --> ${formatTime(cue.end)}\n${cue.text}`
+      ),
+  ].join("\n\n");
+};
+
+interface TorrentFile {
+  name: string;
+  path: string;
+}
+
+const getBaseName = (name: string) =>
+  name.replace(/\.[^.]+$/, "").toLowerCase();
+
+const getFolder = (path: string) => path.split(/[/\\]/).slice(0, -1).join("/");
+
+const isSameEpisode = (video: TorrentFile, subtitle: TorrentFile) => {
+  const videoInfo = getFileEpisodeInfo(video.path || video.name);
+  const subtitleInfo = getFileEpisodeInfo(subtitle.path || subtitle.name);
+  if (!subtitleInfo.episodes.length || !videoInfo.episodes.length) return false;
+
+  return (
+    subtitleInfo.seasons.every((season) =>
+      videoInfo.seasons.includes(season)
+    ) &&
+    subtitleInfo.episodes.some((episode) =>
+      videoInfo.episodes.includes(episode)
+    )
+  );
+};
+
+/**
+ * Subtitles of a video file: named after it ("Movie.hun.srt"), in a folder
+ * named after it ("Subs/Show.S01E01/2_English.srt"), numbered for the same
+ * episode, or next to it if it's the only video in that folder.
+ */
+export const getVideoSubtitles = <T extends TorrentFile>(
+  video: T,
+  videos: T[],
+  subtitles: T[]
+) => {
+  if (videos.length === 1) return subtitles;
+
+  const videoBase = getBaseName(video.name);
+  const videoBases = new Set(videos.map((file) => getBaseName(file.name)));
+  const videoFolder = getFolder(video.path || video.name);
+  const isOnlyVideoInFolder =
+    videos.filter((file) => getFolder(file.path || file.name) === videoFolder)
+      .length === 1;
+
+  return subtitles.filter((subtitle) => {
+    const path = subtitle.path || subtitle.name;
+    const folders = getFolder(path).toLowerCase().split("/");
+    const owner = folders.find((folder) => videoBases.has(folder));
+    if (owner) return owner === videoBase;
+
+    if (getBaseName(subtitle.name).startsWith(videoBase)) return true;
+
+    const episodeInfo = getFileEpisodeInfo(path);
+    if (episodeInfo.episodes.length) return isSameEpisode(video, subtitle);
+
+    return isOnlyVideoInFolder && getFolder(path).startsWith(videoFolder);
+  });
+};
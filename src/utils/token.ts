@@ -0,0 +1,75 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { isInfoHash } from "./magnet.js";
+import { getSecret } from "./secret.js";
+
+const STREAM_SECRET = getSecret("STREAM_SECRET");
+
+/** Lifetime of stream links in ms, 6 hours by default. 0 never expires them */
+const STREAM_LINK_TTL = process.env.STREAM_LINK_TTL
+  ? Number(process.env.STREAM_LINK_TTL) || 0
+  : 6 * 60 * 60 * 1000;
+
+const sign = (payload: string) =>
+  crypto
+    .createHmac("sha256", STREAM_SECRET)
+    .update(payload)
+    .digest("base64url")
+    .slice(0, 22);
+
+/**
+ * Stream links only carry the info hash and file index, signed by the
+ * server. Torrent URIs (and private tracker passkeys) never leave the server.
+ */
+export const createStreamToken = (infoHash: string, fileIndex: number) => {
+  const expires = STREAM_LINK_TTL
+    ? Math.ceil((Date.now() + STREAM_LINK_TTL) / 1000).toString(36)
+    : "0";
+  const payload = `${infoHash}.${fileIndex}.${expires}`;
+  return `${payload}.${sign(payload)}`;
+};
+
+export const verifyStreamToken = (token: string) => {
+  const [infoHash, fileIndex, expires, signature] = token.split(".");
+  if (!infoHash || !fileIndex || !expires || !signature) return undefined;
+  if (!isInfoHash(infoHash)) return undefined;
+
+  const expected = sign(`${infoHash}.${fileIndex}.${expires}`);
+  if (
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  )
+    return undefined;
+
+  const expiresAt = parseInt(expires, 36) * 1000;
+  if (expiresAt && expiresAt < Date.now()) return undefined;
+
+  return { infoHash, fileIndex: Number(fileIndex) };
+};
+
+export const getStreamUrl = (
+  req: Request,
+  infoHash: string,
+  fileIndex: number,
+  fileName: string
+) =>
+  [
+    `${req.protocol}://${req.get("host")}`,
+    "stream",
+    createStreamToken(infoHash, fileIndex),
+    encodeURIComponent(fileName),
+  ].join("/");
+
+/** Subtitles are converted to WebVTT, which is what Stremio plays best */
+export const getSubtitleUrl = (
+  req: Request,
+  infoHash: string,
+  fileIndex: number,
+  fileName: string
+) =>
+  [
+    `${req.protocol}://${req.get("host")}`,
+    "subtitle",
+    createStreamToken(infoHash, fileIndex),
+    encodeURIComponent(fileName.replace(/\.[^.]+$/, ".vtt")),
+  ].join("/");